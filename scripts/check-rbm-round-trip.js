@@ -0,0 +1,24 @@
+// Runs the RBM round-trip checks in src/lib/rbmRoundTrip.check.ts through Vite,
+// which resolves the "@" alias and compiles the TypeScript.
+import { createServer } from 'vite'
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  optimizeDeps: { noDiscovery: true, entries: [] },
+  server: { middlewareMode: true, hmr: false },
+})
+
+try {
+  const { checkRbmRoundTrip } = await server.ssrLoadModule('/src/lib/rbmRoundTrip.check.ts')
+  const failures = checkRbmRoundTrip()
+  failures.forEach((failure) => console.error(`✗ ${failure}`))
+  console.log(
+    failures.length === 0
+      ? 'RBM round trip: all cases came back unchanged'
+      : `RBM round trip: ${failures.length} case(s) failed`
+  )
+  process.exitCode = failures.length === 0 ? 0 : 1
+} finally {
+  await server.close()
+}
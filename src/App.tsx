@@ -1,19 +1,248 @@
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { Panel, ReactFlowProvider } from "@xyflow/react";
+import { Download, FolderOpen, Link, Upload } from "lucide-react";
 import FlowBuilder from "./components/FlowBuilder";
+import FlowImportPanel from "./components/FlowImportPanel";
+import FlowLibraryPanel from "./components/FlowLibraryPanel";
 import { Button } from "./components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./components/ui/dropdown-menu";
 import ViewMode from "./components/ViewMode";
-import { clearFlowState } from "./lib/localStorage";
+import { useFlowLibrary } from "./hooks/useFlowLibrary";
+import { waitForPendingSave } from "./hooks/useAutoSave";
+import { downloadJson } from "./lib/download";
+import { getFlowFileName, ImportModes, mergeFlows, toFlowFile } from "./lib/flowFile";
+import { LoadedFlow, parseFlowDocument } from "./lib/flowSchema";
+import { getFlowStorage } from "./lib/flowStorage";
+import { createShareLink, isShareHash, readShareHash } from "./lib/shareLink";
+import { FlowState } from "./types/FlowTypes";
+
+interface FlowImport {
+  fileName: string;
+  loaded: LoadedFlow | null;
+  error: string | null;
+}
 
 const App: React.FC = () => {
   const [isEditMode, setIsEditMode] = useState(true);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const library = useFlowLibrary();
+  const { activeFlowId } = library;
+  // Flow opened from a share link, shown read-only instead of the library
+  const [sharedFlow, setSharedFlow] = useState<FlowState | null>(null);
+  const [sharedFlowError, setSharedFlowError] = useState<string | null>(null);
+  // Outcome of the last share, e.g. "Link copied"
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  // Flow file picked for import, and how it is being taken over
+  const [flowImport, setFlowImport] = useState<FlowImport | null>(null);
+  const [importMode, setImportMode] = useState<ImportModes | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Reset the flow (clear localStorage and reload)
-  const handleReset = useCallback(() => {
-    clearFlowState();
-    window.location.reload();
+  // Open shared flows from the URL fragment, also when a link is pasted in this tab
+  useEffect(() => {
+    const openSharedFlow = async () => {
+      const { hash } = window.location;
+      if (!isShareHash(hash)) {
+        setSharedFlow(null);
+        setSharedFlowError(null);
+        return;
+      }
+      try {
+        setSharedFlow(await readShareHash(hash));
+        setSharedFlowError(null);
+      } catch (error) {
+        setSharedFlow(null);
+        setSharedFlowError((error as Error).message);
+      }
+    };
+
+    openSharedFlow();
+    window.addEventListener("hashchange", openSharedFlow);
+    return () => window.removeEventListener("hashchange", openSharedFlow);
+  }, []);
+
+  // Leave a shared flow for the flows of this browser
+  const closeSharedFlow = useCallback(() => {
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search
+    );
+    setSharedFlow(null);
+    setSharedFlowError(null);
   }, []);
 
+  // Copy a read-only link to the open flow
+  const handleShare = useCallback(async () => {
+    if (!activeFlowId) return;
+    try {
+      await waitForPendingSave(activeFlowId);
+      const storage = await getFlowStorage();
+      const flowState = await storage.load(activeFlowId);
+      if (!flowState) return;
+
+      const { url, strippedImages } = await createShareLink(
+        flowState,
+        window.location.origin + window.location.pathname
+      );
+      try {
+        await navigator.clipboard.writeText(url);
+      } catch {
+        // Clipboard access can be denied, the link can still be copied by hand
+        window.prompt("Copy the link to share the flow", url);
+      }
+      setShareStatus(
+        strippedImages > 0
+          ? `Link copied, ${strippedImages} uploaded image${
+              strippedImages === 1 ? "" : "s"
+            } replaced by a placeholder`
+          : "Link copied"
+      );
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      setShareStatus("The link could not be created");
+    }
+    window.setTimeout(() => setShareStatus(null), 4000);
+  }, [activeFlowId]);
+
+  // Download the open flow as a .json file
+  const handleExport = useCallback(
+    async (includeImages: boolean) => {
+      if (!activeFlowId) return;
+      try {
+        await waitForPendingSave(activeFlowId);
+        const storage = await getFlowStorage();
+        const flowState = await storage.load(activeFlowId);
+        if (!flowState) return;
+
+        const name = library.activeFlow?.name || "Untitled flow";
+        downloadJson(
+          toFlowFile(
+            flowState,
+            { name, description: library.activeFlow?.description || "" },
+            includeImages
+          ),
+          getFlowFileName(name)
+        );
+      } catch (error) {
+        console.error("Error exporting flow:", error);
+        setShareStatus("The flow could not be exported");
+        window.setTimeout(() => setShareStatus(null), 4000);
+      }
+    },
+    [activeFlowId, library.activeFlow]
+  );
+
+  // Read and check a picked flow file, then preview it in the import panel
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Allow picking the same file again
+      event.target.value = "";
+      if (!file) return;
+      try {
+        const loaded = parseFlowDocument(await file.text());
+        setFlowImport({ fileName: file.name, loaded, error: null });
+      } catch (error) {
+        setFlowImport({
+          fileName: file.name,
+          loaded: null,
+          error: (error as Error).message,
+        });
+      }
+    },
+    []
+  );
+
+  // The editor is closed while importing, so its last autosave cannot overwrite
+  // the imported flow. It opens again with the stored result.
+  useEffect(() => {
+    const loaded = flowImport?.loaded;
+    if (!importMode || !activeFlowId || !flowImport || !loaded) return;
+
+    const importFlow = async () => {
+      try {
+        await waitForPendingSave(activeFlowId);
+        const storage = await getFlowStorage();
+        const current = (await storage.load(activeFlowId)) || {
+          nodes: [],
+          edges: [],
+        };
+        if (current.nodes.length > 0) {
+          await storage.saveVersion(
+            {
+              id: `version-${Date.now()}`,
+              flowId: activeFlowId,
+              label: `Before importing ${flowImport.fileName}`,
+              createdAt: new Date().toISOString(),
+            },
+            current
+          );
+        }
+        await storage.save(
+          activeFlowId,
+          importMode === ImportModes.MERGE
+            ? mergeFlows(current, loaded.flowState)
+            : loaded.flowState
+        );
+        setFlowImport(null);
+      } catch (error) {
+        console.error("Error importing flow:", error);
+        setFlowImport({ ...flowImport, error: (error as Error).message });
+      }
+      setImportMode(null);
+    };
+
+    importFlow();
+  }, [importMode, activeFlowId, flowImport]);
+
+  // Reset the open flow (clear its saved state and reload)
+  const handleReset = useCallback(async () => {
+    if (activeFlowId) {
+      const storage = await getFlowStorage();
+      await storage.save(activeFlowId, { nodes: [], edges: [] });
+    }
+    window.location.reload();
+  }, [activeFlowId]);
+
+  if (sharedFlow || sharedFlowError) {
+    return (
+      <div className="w-screen h-screen flex flex-col overflow-hidden">
+        <main className="flex-1 relative w-full">
+          <ReactFlowProvider>
+            <Panel
+              position="top-left"
+              className="p-2 border-b flex items-center gap-4 bg-white !m-0"
+            >
+              <h3 className="text-xl font-bold">Chatbot Flow Builder</h3>
+              <span className="px-2 py-1 rounded-md bg-gray-100 text-sm text-gray-700">
+                Shared flow, read-only
+              </span>
+              <Button
+                variant="outline"
+                onClick={closeSharedFlow}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                Open my flows
+              </Button>
+            </Panel>
+            {sharedFlow ? (
+              <ViewMode sharedFlow={sharedFlow} />
+            ) : (
+              <div className="flex h-screen items-center justify-center text-red-600">
+                {sharedFlowError}
+              </div>
+            )}
+          </ReactFlowProvider>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="w-screen h-screen flex flex-col overflow-hidden">
       <main className="flex-1 relative w-full">
@@ -23,6 +252,17 @@ const App: React.FC = () => {
             className="p-2 border-b flex items-center gap-4 bg-white !m-0"
           >
             <h3 className="text-xl font-bold">Chatbot Flow Builder</h3>
+            <Button
+              variant="ghost"
+              onClick={() => setIsLibraryOpen(!isLibraryOpen)}
+              className="px-2 py-2 rounded-md text-sm max-w-60"
+              title="Open the flow library"
+            >
+              <FolderOpen className="h-4 w-4" />
+              <span className="truncate">
+                {library.activeFlow?.name || "Untitled flow"}
+              </span>
+            </Button>
             <div className="flex items-center gap-4">
               <div className="flex items-center gap-2">
                 <Button
@@ -53,9 +293,100 @@ const App: React.FC = () => {
               >
                 Reset
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleShare()}
+                className="px-4 py-2 rounded-md text-sm"
+                title="Copy a read-only link to this flow"
+                disabled={!activeFlowId}
+              >
+                <Link className="h-4 w-4" />
+                Share
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="px-4 py-2 rounded-md text-sm"
+                    title="Download this flow as a .json file"
+                    disabled={!activeFlowId}
+                  >
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem onSelect={() => handleExport(true)}>
+                    Export with images
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => handleExport(false)}>
+                    Export without images
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-2 rounded-md text-sm"
+                title="Load a flow from a .json file"
+                disabled={!activeFlowId || !!importMode}
+              >
+                <Upload className="h-4 w-4" />
+                Import
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              {shareStatus && (
+                <span className="text-sm text-gray-600">{shareStatus}</span>
+              )}
             </div>
           </Panel>
-          {isEditMode ? <FlowBuilder /> : <ViewMode />}
+          {isLibraryOpen && (
+            <Panel position="top-left" className="!mt-16">
+              <FlowLibraryPanel
+                flows={library.flows}
+                activeFlowId={activeFlowId}
+                error={library.error}
+                onCreate={() => library.createFlow()}
+                onUpdate={library.updateFlow}
+                onDuplicate={library.duplicateFlow}
+                onDelete={library.deleteFlow}
+                onSwitch={library.switchFlow}
+                onRefresh={library.refresh}
+                onClose={() => setIsLibraryOpen(false)}
+              />
+            </Panel>
+          )}
+          {flowImport && (
+            <Panel position="top-center" className="!mt-16">
+              <FlowImportPanel
+                fileName={flowImport.fileName}
+                loaded={flowImport.loaded}
+                error={flowImport.error}
+                isImporting={!!importMode}
+                onImport={setImportMode}
+                onClose={() => setFlowImport(null)}
+              />
+            </Panel>
+          )}
+          {!activeFlowId ? (
+            <div className="flex h-screen items-center justify-center">
+              Loading...
+            </div>
+          ) : importMode ? (
+            <div className="flex h-screen items-center justify-center">
+              Importing...
+            </div>
+          ) : isEditMode ? (
+            <FlowBuilder key={activeFlowId} flowId={activeFlowId} />
+          ) : (
+            <ViewMode key={activeFlowId} flowId={activeFlowId} />
+          )}
         </ReactFlowProvider>
       </main>
     </div>
@@ -0,0 +1,565 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { RotateCcw, SendHorizontal } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import {
+  CustomNode,
+  EntryPoint,
+  EntryPointTypes,
+  FlowState,
+  NodeTypes,
+} from "../types/FlowTypes";
+import {
+  ButtonData,
+  CarouselCardData,
+  RichCardData,
+  TextMessageData,
+  UserInputData,
+  WebhookData,
+} from "../types/CardTypes";
+import {
+  MAX_AUTO_STEPS,
+  actionHandleId,
+  findEntryNode,
+  findKeywordEntryPoint,
+  getConditionNextNodeId,
+  WEBHOOK_ERROR_HANDLE_ID,
+  WEBHOOK_SUCCESS_HANDLE_ID,
+  getContinuationNodeId,
+  getNextNodeId,
+  matcherHandleId,
+} from "../lib/simulator";
+import { WebhookResult, runMockRequest } from "../lib/webhooks";
+import { findMatcher } from "../lib/matchers";
+import {
+  VariableValues,
+  getSampleValues,
+  renderTemplate,
+} from "../lib/templating";
+
+type TranscriptEntry =
+  // Bot messages keep the variable values they were sent with
+  | { key: number; from: "bot"; nodeId: string; values: VariableValues }
+  | { key: number; from: "user"; text: string }
+  | { key: number; from: "system"; text: string };
+
+interface ConversationPreviewProps {
+  flowState: FlowState;
+}
+
+// Value of the "Start from" picker that uses the start node
+const START_NODE = "start";
+
+const describeStart = (entryPoint: EntryPoint | undefined): string =>
+  !entryPoint
+    ? "Start node"
+    : entryPoint.type === EntryPointTypes.KEYWORD
+      ? `Keyword "${entryPoint.value}"`
+      : `Deep link "${entryPoint.value}"`;
+
+// Transcript line for an API call answered by a mock response
+const describeCall = ({ request, status, error }: WebhookResult): string =>
+  `${request.method} ${request.url || "(no URL)"} → ${
+    [status, error].filter((part) => part !== null && part !== undefined).join(", ")
+  }`;
+
+const fillButton = (button: ButtonData, values: VariableValues): ButtonData => ({
+  ...button,
+  title: button.title && renderTemplate(button.title, values),
+});
+
+// A card with its placeholders replaced by variable values
+const fillCard = (card: RichCardData, values: VariableValues): RichCardData => ({
+  ...card,
+  title: renderTemplate(card.title || "", values),
+  description: renderTemplate(card.description || "", values),
+  buttons: (card.buttons || []).map((button) => fillButton(button, values)),
+});
+
+interface BubbleProps {
+  onTap: (button: ButtonData) => void;
+}
+
+/**
+ * Suggestion buttons shown under a card, as an RCS client renders them
+ */
+const Suggestions: React.FC<BubbleProps & { buttons: ButtonData[] }> = ({
+  buttons,
+  onTap,
+}) => {
+  if (!buttons || buttons.length === 0) return null;
+
+  return (
+    <div className="flex flex-col border-t">
+      {buttons.map((button) => (
+        <button
+          key={button.id}
+          onClick={() => onTap(button)}
+          className="py-2 text-sm font-medium text-blue-600 border-b last:border-b-0 hover:bg-blue-50"
+        >
+          {button.title || button.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const CardBubble: React.FC<BubbleProps & { card: RichCardData }> = ({
+  card,
+  onTap,
+}) => (
+  <div className="w-60 shrink-0 rounded-2xl border bg-white overflow-hidden shadow-sm">
+    {card.imageUrl && (
+      <img src={card.imageUrl} alt="" className="w-full h-32 object-cover" />
+    )}
+    <div className="p-3">
+      <p className="text-sm font-semibold">{card.title}</p>
+      <p className="text-xs text-gray-600 whitespace-pre-wrap">
+        {card.description}
+      </p>
+    </div>
+    <Suggestions buttons={card.buttons} onTap={onTap} />
+  </div>
+);
+
+/**
+ * Text message with suggestion chips, which are only offered
+ * until the conversation moves on
+ */
+const TextBubble: React.FC<
+  BubbleProps & { message: TextMessageData; showChips: boolean }
+> = ({ message, showChips, onTap }) => (
+  <div className="space-y-2">
+    <p className="max-w-[75%] w-fit rounded-2xl bg-white border px-3 py-2 text-sm whitespace-pre-wrap">
+      {message.text}
+    </p>
+    {showChips && message.suggestions && message.suggestions.length > 0 && (
+      <div className="flex flex-wrap gap-2">
+        {message.suggestions.map((suggestion) => (
+          <button
+            key={suggestion.id}
+            onClick={() => onTap(suggestion)}
+            className="rounded-full border border-blue-600 px-3 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50"
+          >
+            {suggestion.title || suggestion.label}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * ConversationPreview Component
+ * Plays a flow as an RCS chat transcript on a phone-sized screen.
+ * The conversation starts at the start node or a chosen entry point, and tapping
+ * a suggestion follows the edge leaving that action's handle to the next message.
+ * At user input nodes the typed reply is routed through the node's matchers.
+ * Typing a keyword entry point jumps to its node at any time, and condition
+ * nodes pass the conversation on based on the variable values. API calls are
+ * answered by the flow's mock responses, so everything runs offline.
+ * Placeholders show the sample values of the flow's variables until a user
+ * input stores the reply in one.
+ */
+const ConversationPreview: React.FC<ConversationPreviewProps> = ({
+  flowState,
+}) => {
+  const { nodes, edges } = flowState;
+  const entryPoints = useMemo(
+    () => flowState.entryPoints || [],
+    [flowState.entryPoints]
+  );
+  const variables = useMemo(
+    () => flowState.variables || [],
+    [flowState.variables]
+  );
+  const mockResponses = useMemo(
+    () => flowState.mockResponses || [],
+    [flowState.mockResponses]
+  );
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [startFrom, setStartFrom] = useState(START_NODE);
+  const [reply, setReply] = useState("");
+  // Variable values the conversation has so far
+  const [values, setValues] = useState<VariableValues>({});
+  const nextKey = useRef(0);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const nodesById = useMemo(
+    () => new Map(nodes.map((node) => [node.id, node])),
+    [nodes]
+  );
+
+  // Bot messages sent starting at a node, following edges that need no user input
+  // and the variable values the turn ends with
+  const botTurn = useCallback(
+    (
+      startId: string | null,
+      startValues: VariableValues
+    ): { entries: TranscriptEntry[]; values: VariableValues } => {
+      if (!startId || !nodesById.has(startId)) {
+        return {
+          entries: [
+            { key: nextKey.current++, from: "system", text: "End of conversation" },
+          ],
+          values: startValues,
+        };
+      }
+
+      const entries: TranscriptEntry[] = [];
+      let turnValues = startValues;
+      const visited = new Set<string>();
+      let currentId: string | null = startId;
+      while (
+        currentId &&
+        nodesById.has(currentId) &&
+        !visited.has(currentId) &&
+        entries.length < MAX_AUTO_STEPS
+      ) {
+        visited.add(currentId);
+        const node = nodesById.get(currentId) as CustomNode;
+        // Conditions route on the variables without sending anything
+        if (node.type === NodeTypes.CONDITION) {
+          currentId = getConditionNextNodeId(edges, node, turnValues);
+          if (!currentId) {
+            entries.push({
+              key: nextKey.current++,
+              from: "system",
+              text: "No next step for this condition",
+            });
+          }
+          continue;
+        }
+        // API calls are answered by the mock responses and may store values
+        if (node.type === NodeTypes.WEBHOOK) {
+          const result = runMockRequest(
+            node.data as WebhookData,
+            mockResponses,
+            turnValues
+          );
+          turnValues = result.values;
+          entries.push({
+            key: nextKey.current++,
+            from: "system",
+            text: describeCall(result),
+          });
+          currentId = getNextNodeId(
+            edges,
+            node.id,
+            result.ok ? WEBHOOK_SUCCESS_HANDLE_ID : WEBHOOK_ERROR_HANDLE_ID
+          );
+          continue;
+        }
+        entries.push({
+          key: nextKey.current++,
+          from: "bot",
+          nodeId: currentId,
+          values: turnValues,
+        });
+        currentId = getContinuationNodeId(edges, currentId);
+      }
+      return { entries, values: turnValues };
+    },
+    [edges, nodesById, mockResponses]
+  );
+
+  const restart = useCallback(() => {
+    const sampleValues = getSampleValues(variables);
+    const entryPoint = entryPoints.find((entry) => entry.id === startFrom);
+    if (entryPoint) {
+      // The user's side of using the entry point comes before the first message
+      const opening: TranscriptEntry =
+        entryPoint.type === EntryPointTypes.KEYWORD
+          ? { key: nextKey.current++, from: "user", text: entryPoint.value }
+          : {
+              key: nextKey.current++,
+              from: "system",
+              text: `Opened from deep link "${entryPoint.value}"`,
+            };
+      const turn = botTurn(entryPoint.nodeId, sampleValues);
+      setValues(turn.values);
+      setTranscript([opening, ...turn.entries]);
+      return;
+    }
+
+    const entryNode = findEntryNode(flowState);
+    const turn = entryNode
+      ? botTurn(entryNode.id, sampleValues)
+      : { entries: [], values: sampleValues };
+    setValues(turn.values);
+    setTranscript(turn.entries);
+  }, [flowState, entryPoints, variables, startFrom, botTurn]);
+
+  // Start over whenever the flow changes
+  useEffect(() => {
+    restart();
+  }, [restart]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [transcript]);
+
+  // Add what happened before the bot's turn, then the turn itself
+  const respond = (
+    leading: TranscriptEntry[],
+    startId: string | null,
+    startValues: VariableValues
+  ) => {
+    const turn = botTurn(startId, startValues);
+    setValues(turn.values);
+    setTranscript((entries) => [...entries, ...leading, ...turn.entries]);
+  };
+
+  const handleTap = (nodeId: string, button: ButtonData) => {
+    respond(
+      [
+        {
+          key: nextKey.current++,
+          from: "user",
+          text: button.title || button.label,
+        },
+      ],
+      getNextNodeId(edges, nodeId, actionHandleId(button.id)),
+      values
+    );
+  };
+
+  // The user input node the conversation is waiting at, if any
+  const lastEntry = transcript[transcript.length - 1];
+  const waitingNode =
+    lastEntry && lastEntry.from === "bot"
+      ? nodesById.get(lastEntry.nodeId)
+      : undefined;
+  const inputNode =
+    waitingNode && waitingNode.type === NodeTypes.USER_INPUT
+      ? waitingNode
+      : undefined;
+
+  const hasKeywords = entryPoints.some(
+    (entryPoint) => entryPoint.type === EntryPointTypes.KEYWORD
+  );
+  const canType = !!inputNode || hasKeywords;
+
+  const handleSend = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = reply.trim();
+    if (!canType || text === "") return;
+
+    const userEntry: TranscriptEntry = {
+      key: nextKey.current++,
+      from: "user",
+      text,
+    };
+    setReply("");
+
+    // Keywords start their part of the conversation wherever the user is
+    const keywordEntry = findKeywordEntryPoint(entryPoints, text);
+    if (keywordEntry) {
+      respond([userEntry], keywordEntry.nodeId, values);
+      return;
+    }
+
+    if (!inputNode) {
+      setTranscript((entries) => [
+        ...entries,
+        userEntry,
+        {
+          key: nextKey.current++,
+          from: "system",
+          text: "No keyword fits this message",
+        },
+      ]);
+      return;
+    }
+
+    const { matchers = [], saveAs } = inputNode.data as UserInputData;
+    const matcher = findMatcher(matchers, text);
+    if (!matcher) {
+      setTranscript((entries) => [
+        ...entries,
+        userEntry,
+        {
+          key: nextKey.current++,
+          from: "system",
+          text: "No matcher fits this reply",
+        },
+        // Keep waiting for another reply at the same input
+        {
+          key: nextKey.current++,
+          from: "bot",
+          nodeId: inputNode.id,
+          values,
+        },
+      ]);
+      return;
+    }
+
+    // Only a reply that moves the conversation on is stored
+    respond(
+      [userEntry],
+      getNextNodeId(edges, inputNode.id, matcherHandleId(matcher.id)),
+      saveAs ? { ...values, [saveAs]: text } : values
+    );
+  };
+
+  const renderBotMessage = (
+    nodeId: string,
+    values: VariableValues,
+    isLatest: boolean
+  ) => {
+    const node = nodesById.get(nodeId);
+    if (!node) return null;
+
+    const onTap = (button: ButtonData) => handleTap(nodeId, button);
+
+    // Waiting for user input is shown by the composer, not as a message
+    if (node.type === NodeTypes.USER_INPUT) return null;
+
+    if (node.type === NodeTypes.TEXT_MESSAGE) {
+      const message = node.data as TextMessageData;
+      return (
+        <TextBubble
+          message={{
+            ...message,
+            text: renderTemplate(message.text || "", values),
+            suggestions: (message.suggestions || []).map((suggestion) =>
+              fillButton(suggestion, values)
+            ),
+          }}
+          showChips={isLatest}
+          onTap={onTap}
+        />
+      );
+    }
+
+    if (node.type === NodeTypes.CAROUSEL_CARD) {
+      const { cards } = node.data as CarouselCardData;
+      return (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {cards.map((card) => (
+            <CardBubble
+              key={card.id}
+              card={fillCard(card, values)}
+              onTap={onTap}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <CardBubble
+        card={fillCard(node.data as RichCardData, values)}
+        onTap={onTap}
+      />
+    );
+  };
+
+  return (
+    <div className="w-[360px] h-[640px] rounded-[2rem] border-8 border-black bg-white flex flex-col overflow-hidden shadow-xl">
+      <div className="flex items-center justify-between px-4 py-3 border-b bg-white">
+        <span className="text-sm font-semibold">RCS Agent</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={restart}
+          className="text-xs text-gray-600"
+        >
+          <RotateCcw className="h-4 w-4" />
+          Restart
+        </Button>
+      </div>
+      {entryPoints.length > 0 && (
+        <div className="flex items-center gap-2 px-4 py-2 border-b bg-white text-xs">
+          <span className="text-gray-500 shrink-0">Start from</span>
+          <Select value={startFrom} onValueChange={setStartFrom}>
+            <SelectTrigger className="w-full h-7 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+              <span className="text-xs font-normal truncate">
+                {describeStart(
+                  entryPoints.find((entryPoint) => entryPoint.id === startFrom)
+                )}
+              </span>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={START_NODE} className="text-xs py-2">
+                {describeStart(undefined)}
+              </SelectItem>
+              {entryPoints.map((entryPoint) => (
+                <SelectItem
+                  key={entryPoint.id}
+                  value={entryPoint.id}
+                  className="text-xs py-2"
+                >
+                  {describeStart(entryPoint)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3 bg-gray-50 text-left">
+        {nodes.length === 0 && (
+          <p className="text-center text-xs text-gray-500">
+            This flow has no messages yet.
+          </p>
+        )}
+        {transcript.map((entry, index) => {
+          if (entry.from === "bot") {
+            return (
+              <div key={entry.key}>
+                {renderBotMessage(
+                  entry.nodeId,
+                  entry.values,
+                  index === transcript.length - 1
+                )}
+              </div>
+            );
+          }
+          if (entry.from === "user") {
+            return (
+              <div key={entry.key} className="flex justify-end">
+                <span className="max-w-[75%] rounded-2xl bg-blue-600 px-3 py-2 text-sm text-white">
+                  {entry.text}
+                </span>
+              </div>
+            );
+          }
+          return (
+            <p key={entry.key} className="text-center text-xs text-gray-500">
+              {entry.text}
+            </p>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="flex items-center gap-2 p-2 border-t">
+        <Input
+          value={reply}
+          disabled={!canType}
+          placeholder={
+            inputNode
+              ? "Type a reply..."
+              : hasKeywords
+                ? "Type a keyword..."
+                : "Tap a suggestion to reply"
+          }
+          onChange={(e) => setReply(e.target.value)}
+          className="text-sm"
+        />
+        <Button type="submit" size="icon" disabled={!canType || reply.trim() === ""}>
+          <SendHorizontal className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationPreview;
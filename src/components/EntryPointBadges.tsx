@@ -0,0 +1,66 @@
+import React from "react";
+import { ViewportPortal } from "@xyflow/react";
+import { Hash, Link, Play } from "lucide-react";
+import {
+  CustomNode,
+  EntryPoint,
+  EntryPointTypes,
+} from "../types/FlowTypes";
+
+interface EntryPointBadgesProps {
+  nodes: CustomNode[];
+  startNodeId?: string;
+  entryPoints: EntryPoint[];
+}
+
+/**
+ * EntryPointBadges Component
+ * Shows above each node whether conversations start there, as the start node
+ * or through a keyword or deep link entry point.
+ */
+const EntryPointBadges: React.FC<EntryPointBadgesProps> = ({
+  nodes,
+  startNodeId,
+  entryPoints,
+}) => (
+  <ViewportPortal>
+    {nodes.map((node) => {
+      const nodeEntryPoints = entryPoints.filter(
+        (entryPoint) => entryPoint.nodeId === node.id
+      );
+      if (node.id !== startNodeId && nodeEntryPoints.length === 0) return null;
+
+      return (
+        <div
+          key={node.id}
+          className="absolute flex gap-1 pointer-events-none"
+          style={{
+            transform: `translate(${node.position.x}px, ${node.position.y}px) translateY(-100%) translateY(-6px)`,
+          }}
+        >
+          {node.id === startNodeId && (
+            <span className="flex items-center gap-1 rounded-full bg-black px-2 py-0.5 text-xs font-medium text-white">
+              <Play className="h-3 w-3" />
+              Start
+            </span>
+          )}
+          {nodeEntryPoints.map((entryPoint) => (
+            <span
+              key={entryPoint.id}
+              className="flex items-center gap-1 rounded-full border border-gray-300 bg-white px-2 py-0.5 text-xs font-medium"
+            >
+              {entryPoint.type === EntryPointTypes.KEYWORD ? (
+                <Hash className="h-3 w-3" />
+              ) : (
+                <Link className="h-3 w-3" />
+              )}
+              {entryPoint.value || "(empty)"}
+            </span>
+          ))}
+        </div>
+      );
+    })}
+  </ViewportPortal>
+);
+
+export default EntryPointBadges;
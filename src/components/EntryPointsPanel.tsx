@@ -0,0 +1,205 @@
+import React from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import {
+  CustomNode,
+  EntryPoint,
+  EntryPointTypes,
+} from "../types/FlowTypes";
+import { getNodeLabel } from "../lib/nodeLabels";
+
+// Radix selects can't hold an empty value
+const NO_START_NODE = "none";
+
+const ENTRY_POINT_TYPE_LABELS: Record<EntryPointTypes, string> = {
+  [EntryPointTypes.KEYWORD]: "Keyword",
+  [EntryPointTypes.DEEP_LINK]: "Deep link",
+};
+
+interface EntryPointsPanelProps {
+  nodes: CustomNode[];
+  startNodeId?: string;
+  entryPoints: EntryPoint[];
+  onStartNodeChange: (nodeId: string | undefined) => void;
+  onEntryPointsChange: (entryPoints: EntryPoint[]) => void;
+  onClose: () => void;
+}
+
+const NodeSelect: React.FC<{
+  nodes: CustomNode[];
+  value: string;
+  placeholder: string;
+  onChange: (nodeId: string) => void;
+  extraOption?: { value: string; label: string };
+}> = ({ nodes, value, placeholder, onChange, extraOption }) => {
+  const selected = nodes.find((node) => node.id === value);
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+        <span className="text-xs font-normal truncate">
+          {selected
+            ? getNodeLabel(selected)
+            : extraOption?.value === value
+              ? extraOption.label
+              : placeholder}
+        </span>
+      </SelectTrigger>
+      <SelectContent>
+        {extraOption && (
+          <SelectItem value={extraOption.value} className="text-xs py-2">
+            {extraOption.label}
+          </SelectItem>
+        )}
+        {nodes.map((node) => (
+          <SelectItem key={node.id} value={node.id} className="text-xs py-2">
+            {getNodeLabel(node)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+/**
+ * EntryPointsPanel Component
+ * Picks the node conversations start at and manages named entry points:
+ * keywords the user can type at any time and deep link payloads.
+ */
+const EntryPointsPanel: React.FC<EntryPointsPanelProps> = ({
+  nodes,
+  startNodeId,
+  entryPoints,
+  onStartNodeChange,
+  onEntryPointsChange,
+  onClose,
+}) => {
+  const addEntryPoint = () => {
+    onEntryPointsChange([
+      ...entryPoints,
+      {
+        id: `entry-${Date.now()}`,
+        type: EntryPointTypes.KEYWORD,
+        value: "",
+        nodeId: startNodeId || nodes[0]?.id || "",
+      },
+    ]);
+  };
+
+  // Replace an edited entry point
+  const updateEntryPoint = (updated: EntryPoint) => {
+    onEntryPointsChange(
+      entryPoints.map((entryPoint) =>
+        entryPoint.id === updated.id ? updated : entryPoint
+      )
+    );
+  };
+
+  const removeEntryPoint = (entryPointId: string) => {
+    onEntryPointsChange(
+      entryPoints.filter((entryPoint) => entryPoint.id !== entryPointId)
+    );
+  };
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Entry points</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 space-y-2 border-b">
+        <p className="text-sm font-medium">Start node</p>
+        <NodeSelect
+          nodes={nodes}
+          value={startNodeId || NO_START_NODE}
+          placeholder="Select the start node"
+          extraOption={{
+            value: NO_START_NODE,
+            label: "First node without incoming connections",
+          }}
+          onChange={(value) =>
+            onStartNodeChange(value === NO_START_NODE ? undefined : value)
+          }
+        />
+      </div>
+      <div className="max-h-80 overflow-y-auto divide-y">
+        {entryPoints.map((entryPoint) => (
+          <div key={entryPoint.id} className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Select
+                value={entryPoint.type}
+                onValueChange={(value: string) =>
+                  updateEntryPoint({
+                    ...entryPoint,
+                    type: value as EntryPointTypes,
+                  })
+                }
+              >
+                <SelectTrigger className="w-32 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+                  <span className="text-xs font-normal">
+                    {ENTRY_POINT_TYPE_LABELS[entryPoint.type]}
+                  </span>
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(EntryPointTypes).map((type) => (
+                    <SelectItem key={type} value={type} className="text-xs py-2">
+                      {ENTRY_POINT_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={entryPoint.value}
+                placeholder={
+                  entryPoint.type === EntryPointTypes.KEYWORD
+                    ? "e.g. MENU"
+                    : "e.g. summer-sale"
+                }
+                onChange={(e) =>
+                  updateEntryPoint({ ...entryPoint, value: e.target.value })
+                }
+                className="text-xs"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 shrink-0"
+                title="Remove entry point"
+                onClick={() => removeEntryPoint(entryPoint.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <NodeSelect
+              nodes={nodes}
+              value={entryPoint.nodeId}
+              placeholder="Select the node it opens"
+              onChange={(nodeId) => updateEntryPoint({ ...entryPoint, nodeId })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="p-3 border-t">
+        <Button
+          variant="outline"
+          onClick={addEntryPoint}
+          disabled={nodes.length === 0}
+          className="w-full text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          Add entry point
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EntryPointsPanel;
@@ -1,5 +1,11 @@
 // src/components/FlowBuilder.tsx
-import React, { useState, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import {
   ReactFlow,
   MiniMap,
@@ -10,85 +16,193 @@ import {
   addEdge,
   Connection,
   Edge,
+  XYPosition,
   useReactFlow,
   Panel,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
-import { Plus } from "lucide-react";
+import {
+  Braces,
+  Download,
+  FileInput,
+  Flag,
+  History,
+  LayoutGrid,
+  ListChecks,
+  Plus,
+  Redo2,
+  Search,
+  Server,
+  TriangleAlert,
+  Undo2,
+} from "lucide-react";
 import { nodeTypes } from "./nodes/NodeTypes";
 import { useAutoSave } from "../hooks/useAutoSave";
-import { loadFlowState } from "../lib/localStorage";
-import { FlowState, NodeTypes, CustomNode } from "../types/FlowTypes";
-import { RichCardData, CarouselCardData } from "../types/CardTypes";
+import { useUndoRedo } from "../hooks/useUndoRedo";
+import { useFlowVersions } from "../hooks/useFlowVersions";
+import {
+  FlowStore,
+  FlowStoreContext,
+  lockNode,
+  mergeNodeData,
+  removeHandleEdges,
+} from "../hooks/useFlowStore";
+import { getFlowStorage } from "../lib/flowStorage";
+import { exportToRbm } from "../lib/rbmExport";
+import { downloadJson } from "../lib/download";
+import { validateFlow } from "../lib/flowValidation";
+import {
+  FlowClipboard,
+  copyNodes,
+  parseClipboard,
+  pasteNodes,
+} from "../lib/flowClipboard";
+import { canConvertNodeType, convertNodeType } from "../lib/nodeConversion";
+import { searchFlow } from "../lib/flowSearch";
+import { DiffStatuses, diffFlows } from "../lib/flowDiff";
+import {
+  FlowGraph,
+  addCarouselCard,
+  deleteCarouselCard,
+  detachCarouselCard,
+  mergeIntoCarousel,
+  moveCarouselCard,
+} from "../lib/carouselCards";
+import {
+  DEFAULT_LAYOUT_OPTIONS,
+  LayoutOptions,
+  layoutFlow,
+} from "../lib/autoLayout";
+import {
+  FlowState,
+  NodeTypes,
+  CustomNode,
+  EntryPoint,
+  FlowVariable,
+  FlowVersion,
+  MockResponse,
+} from "../types/FlowTypes";
+import { HttpMethods, MatcherTypes } from "../types/CardTypes";
 import { Tabs, TabsList, TabsTrigger } from "@radix-ui/react-tabs";
+import { Button } from "./ui/button";
+import RbmImportPanel from "./RbmImportPanel";
+import EntryPointsPanel from "./EntryPointsPanel";
+import EntryPointBadges from "./EntryPointBadges";
+import ValidationPanel from "./ValidationPanel";
+import VariablesPanel from "./VariablesPanel";
+import MockResponsesPanel from "./MockResponsesPanel";
+import LayoutPanel from "./LayoutPanel";
+import SearchPanel from "./SearchPanel";
+import VersionsPanel from "./VersionsPanel";
 
 const defaultEdgeOptions = {
   animated: true,
   style: { stroke: "#a3a3a3", strokeWidth: 2 },
 };
 
-const FlowBuilder: React.FC = () => {
+// Text fields handle their own clipboard and keyboard shortcuts
+const isEditable = (target: EventTarget | null): target is HTMLElement =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA"].includes(target.tagName));
+
+// Text fields outside the canvas keep the browser's own undo
+const isOutsideEditable = (target: EventTarget | null) =>
+  isEditable(target) && !target.closest(".react-flow__node");
+
+// Outlines and edge colors of what changed since a compared version
+const DIFF_NODE_CLASSES: Partial<Record<DiffStatuses, string>> = {
+  [DiffStatuses.ADDED]: "rounded-xl outline-2 outline-offset-4 outline-green-500",
+  [DiffStatuses.CHANGED]: "rounded-xl outline-2 outline-offset-4 outline-violet-500",
+};
+const DIFF_EDGE_COLORS: Partial<Record<DiffStatuses, string>> = {
+  [DiffStatuses.ADDED]: "#22c55e",
+  [DiffStatuses.CHANGED]: "#8b5cf6",
+};
+
+// Where pasted or duplicated nodes go relative to the copied ones
+const DUPLICATE_OFFSET = 40;
+
+interface FlowBuilderProps {
+  /** Id of the stored flow being edited */
+  flowId: string;
+}
+
+const FlowBuilder: React.FC<FlowBuilderProps> = ({ flowId }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState<CustomNode>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
+  const [startNodeId, setStartNodeId] = useState<string | undefined>();
+  const [entryPoints, setEntryPoints] = useState<EntryPoint[]>([]);
+  const [variables, setVariables] = useState<FlowVariable[]>([]);
+  const [mockResponses, setMockResponses] = useState<MockResponse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Why the stored flow could not be opened
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isValidationOpen, setIsValidationOpen] = useState(false);
+  const [isEntryPointsOpen, setIsEntryPointsOpen] = useState(false);
+  const [isVariablesOpen, setIsVariablesOpen] = useState(false);
+  const [isMocksOpen, setIsMocksOpen] = useState(false);
+  const [isLayoutOpen, setIsLayoutOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
+  // Saved version the flow is compared with
+  const [comparedVersion, setComparedVersion] = useState<{
+    version: FlowVersion;
+    flowState: FlowState;
+  } | null>(null);
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOptions>(
+    DEFAULT_LAYOUT_OPTIONS
+  );
+  // Whether the "Add to flow" panel offers bot messages, user input or logic
+  const [speaker, setSpeaker] = useState<"bot" | "user" | "logic">("bot");
   const reactFlowInstance = useReactFlow();
+  // Clipboard text pasted last and how often, so repeated pastes don't stack
+  const pasteCount = useRef({ text: "", count: 0 });
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  const flowState = useMemo<FlowState>(
+    () => ({ nodes, edges, startNodeId, entryPoints, variables, mockResponses }),
+    [nodes, edges, startNodeId, entryPoints, variables, mockResponses]
+  );
+
+  const applyFlowState = useCallback(
+    (state: FlowState) => {
+      setNodes(state.nodes);
+      setEdges(state.edges);
+      setStartNodeId(state.startNodeId);
+      setEntryPoints(state.entryPoints || []);
+      setVariables(state.variables || []);
+      setMockResponses(state.mockResponses || []);
+    },
+    [setNodes, setEdges]
+  );
+
+  const { takeSnapshot, undo, redo, canUndo, canRedo } = useUndoRedo(
+    flowState,
+    applyFlowState
+  );
 
-  // Load sample data
+  // Load the saved flow
   useEffect(() => {
     const fetchInitialData = async () => {
       setIsLoading(true);
 
       try {
-        // First, try to load from localStorage
-        const savedState = loadFlowState();
-
-        if (savedState && savedState.nodes.length > 0) {
-          setNodes(savedState.nodes);
-          setEdges(savedState.edges);
-        } else {
-          // If no saved state, load from sample data
-          const response = await fetch("/data/sampleData.json");
-          const data = await response.json();
-
-          // Create nodes from sample data
-          const richCardNodes: CustomNode[] = data.richCards.map(
-            (card: RichCardData, index: number) => ({
-              id: card.id,
-              type: NodeTypes.RICH_CARD,
-              data: card,
-              position: { x: 250 * index, y: 300 },
-            })
-          );
-
-          const carouselCardNodes: CustomNode[] = data.carouselCards.map(
-            (card: CarouselCardData, index: number) => ({
-              id: card.id,
-              type: NodeTypes.CAROUSEL_CARD,
-              data: card,
-              position: { x: 250 * index, y: 50 },
-            })
-          );
-
-          // Combine nodes
-          const allNodes = [...carouselCardNodes, ...richCardNodes];
-
-          // Create sample edges
-          const sampleEdges: Edge[] = [];
-
-          // Connect carousel to its rich cards
-          data.carouselCards.forEach((carousel: CarouselCardData) => {
-            carousel.cards.forEach((card: RichCardData) => {
-              sampleEdges.push({
-                id: `${carousel.id}-to-${card.id}`,
-                source: carousel.id as string,
-                target: card.id,
-              });
-            });
-          });
-
-          setNodes(allNodes);
-          setEdges(sampleEdges);
+        // First, try to load the saved flow
+        const storage = await getFlowStorage();
+        let savedState: FlowState | null;
+        try {
+          savedState = await storage.load(flowId);
+        } catch (error) {
+          // Autosave stays off, so the stored flow is not replaced by an empty canvas
+          console.error("Error loading the saved flow:", error);
+          setLoadError((error as Error).message);
+          return;
         }
+
+        // Flows are created with an empty state, an older one without a state starts empty
+        applyFlowState(savedState ?? { nodes: [], edges: [] });
       } catch (error) {
         console.error("Error loading initial data:", error);
       } finally {
@@ -97,25 +211,407 @@ const FlowBuilder: React.FC = () => {
     };
 
     fetchInitialData();
-  }, [setNodes, setEdges]);
+  }, [flowId, applyFlowState]);
+
+  // Add copies of nodes, selected so they can be moved together right away
+  const insertNodes = useCallback(
+    (clipboard: FlowClipboard, position: XYPosition) => {
+      const pasted = pasteNodes(clipboard, position);
+      takeSnapshot();
+      setNodes((nds) => [
+        ...nds.map((node) => ({ ...node, selected: false })),
+        ...pasted.nodes,
+      ]);
+      setEdges((eds) => [...eds, ...pasted.edges]);
+    },
+    [setNodes, setEdges, takeSnapshot]
+  );
+
+  // Change nodes and edges together as one undo step
+  const changeGraph = useCallback(
+    (change: (graph: FlowGraph) => FlowGraph) => {
+      const graph: FlowGraph = {
+        nodes: reactFlowInstance.getNodes() as CustomNode[],
+        edges: reactFlowInstance.getEdges(),
+      };
+      const changed = change(graph);
+      if (changed === graph) return;
+      takeSnapshot();
+      setNodes(changed.nodes);
+      setEdges(changed.edges);
+    },
+    [reactFlowInstance, setNodes, setEdges, takeSnapshot]
+  );
+
+  // Node components report their changes here, so the nodes state is the only copy
+  const flowStore = useMemo<FlowStore>(
+    () => ({
+      updateNodeData: (nodeId, data) => {
+        // Keystrokes in the same field become one undo step
+        takeSnapshot(`${nodeId}:${Object.keys(data).join(",")}`);
+        setNodes((nds) => mergeNodeData(nds, nodeId, data));
+      },
+      removeNodeItems: (nodeId, data, handleIds) => {
+        takeSnapshot();
+        setNodes((nds) => mergeNodeData(nds, nodeId, data));
+        setEdges((eds) => removeHandleEdges(eds, nodeId, handleIds));
+      },
+      duplicateNode: (nodeId) => {
+        const node = reactFlowInstance.getNode(nodeId) as CustomNode | undefined;
+        if (!node) return;
+        insertNodes(copyNodes([node], []), {
+          x: node.position.x + DUPLICATE_OFFSET,
+          y: node.position.y + DUPLICATE_OFFSET,
+        });
+      },
+      deleteNode: (nodeId) => {
+        // Goes through onBeforeDelete like a deletion with the keyboard
+        reactFlowInstance.deleteElements({ nodes: [{ id: nodeId }] });
+      },
+      convertNode: (nodeId, type) => {
+        const node = reactFlowInstance.getNode(nodeId) as CustomNode | undefined;
+        if (!node || !canConvertNodeType(node, type)) return;
+        const converted = convertNodeType(node, reactFlowInstance.getEdges(), type);
+        takeSnapshot();
+        setNodes((nds) => nds.map((n) => (n.id === nodeId ? converted.node : n)));
+        setEdges(converted.edges);
+      },
+      setNodeLocked: (nodeId, locked) => {
+        takeSnapshot();
+        setNodes((nds) => lockNode(nds, nodeId, locked));
+      },
+      addCarouselCard: (nodeId, card) => {
+        changeGraph((graph) => addCarouselCard(graph, nodeId, card));
+      },
+      moveCarouselCard: (nodeId, cardId, offset) => {
+        changeGraph((graph) => moveCarouselCard(graph, nodeId, cardId, offset));
+      },
+      deleteCarouselCard: (nodeId, cardId) => {
+        changeGraph((graph) => deleteCarouselCard(graph, nodeId, cardId));
+      },
+      detachCarouselCard: (nodeId, cardId) => {
+        changeGraph((graph) => detachCarouselCard(graph, nodeId, cardId));
+      },
+      mergeIntoCarousel: (nodeId, carouselId) => {
+        changeGraph((graph) => mergeIntoCarousel(graph, nodeId, carouselId));
+      },
+      variables,
+    }),
+    [
+      setNodes,
+      setEdges,
+      takeSnapshot,
+      insertNodes,
+      changeGraph,
+      reactFlowInstance,
+      variables,
+    ]
+  );
+
+  // Undo with Ctrl+Z, redo with Ctrl+Shift+Z or Ctrl+Y
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isOutsideEditable(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Ctrl+F searches the flow instead of the page
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "f") {
+        event.preventDefault();
+        setIsSearchOpen(true);
+        searchInputRef.current?.select();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Record the flow once before a deletion removes nodes and their edges
+  const onBeforeDelete = useCallback(
+    async ({ nodes, edges }: { nodes: CustomNode[]; edges: Edge[] }) => {
+      if (nodes.length > 0 || edges.length > 0) {
+        takeSnapshot();
+      }
+      return true;
+    },
+    [takeSnapshot]
+  );
 
   // Set up autosave
-  const flowState: FlowState = {
-    nodes,
-    edges,
-  };
+  const { saveError } = useAutoSave(flowId, flowState, {
+    enabled: !isLoading && !loadError,
+  });
+  const { versions, loadVersion, ...flowVersions } = useFlowVersions(flowId);
+
+  // Copy and paste selected nodes through the system clipboard,
+  // so they can be pasted into other flows and browser tabs
+  useEffect(() => {
+    const handleCopy = (event: ClipboardEvent) => {
+      // Leave copying text to the browser
+      if (isEditable(event.target) || window.getSelection()?.isCollapsed === false) {
+        return;
+      }
+      const selected = nodes.filter((node) => node.selected);
+      if (selected.length === 0 || !event.clipboardData) return;
+
+      event.clipboardData.setData(
+        "text/plain",
+        JSON.stringify(copyNodes(selected, edges))
+      );
+      event.preventDefault();
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditable(event.target)) return;
+      const text = event.clipboardData?.getData("text/plain") || "";
+      const clipboard = parseClipboard(text);
+      if (!clipboard || clipboard.nodes.length === 0) return;
+      event.preventDefault();
 
-  useAutoSave(flowState, { enabled: !isLoading });
+      // Paste into the middle of the screen, each paste of the same copy a bit further down
+      pasteCount.current =
+        pasteCount.current.text === text
+          ? { text, count: pasteCount.current.count + 1 }
+          : { text, count: 0 };
+      const center = reactFlowInstance.screenToFlowPosition({
+        x: window.innerWidth / 2,
+        y: window.innerHeight / 2,
+      });
+      const offset = pasteCount.current.count * DUPLICATE_OFFSET;
+      insertNodes(clipboard, { x: center.x + offset, y: center.y + offset });
+    };
+
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+    };
+  }, [nodes, edges, insertNodes, reactFlowInstance]);
 
   // Handle edge connections
   const onConnect = useCallback(
     (connection: Connection) => {
+      takeSnapshot();
       setEdges((eds) => addEdge(connection, eds));
     },
-    [setEdges]
+    [setEdges, takeSnapshot]
+  );
+
+  const issues = useMemo(() => validateFlow(flowState), [flowState]);
+  const searchMatches = useMemo(
+    () => (isSearchOpen ? searchFlow(nodes, searchQuery) : []),
+    [nodes, searchQuery, isSearchOpen]
+  );
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const comparison = useMemo(
+    () =>
+      comparedVersion && {
+        version: comparedVersion.version,
+        diff: diffFlows(comparedVersion.flowState, flowState),
+      },
+    [comparedVersion, flowState]
+  );
+
+  // Outline nodes with problems while the flow check is open, nodes matching
+  // the search while searching, and nodes changed since a compared version
+  const displayedNodes = useMemo(() => {
+    if (!isValidationOpen && searchMatches.length === 0 && !comparison) return nodes;
+
+    const severities = new Map<string, string>();
+    if (isValidationOpen) {
+      issues.forEach((issue) => {
+        if (issue.nodeId && severities.get(issue.nodeId) !== "error") {
+          severities.set(issue.nodeId, issue.severity);
+        }
+      });
+    }
+    const matchingIds = new Set(searchMatches.map((match) => match.nodeId));
+    const diffStatuses = new Map(
+      (comparison?.diff.nodes || []).map((nodeDiff) => [nodeDiff.nodeId, nodeDiff.status])
+    );
+    return nodes.map((node) => {
+      const severity = severities.get(node.id);
+      if (severity) {
+        return {
+          ...node,
+          className:
+            severity === "error"
+              ? "rounded-xl outline-2 outline-offset-4 outline-red-500"
+              : "rounded-xl outline-2 outline-offset-4 outline-amber-400",
+        };
+      }
+      if (matchingIds.has(node.id)) {
+        return {
+          ...node,
+          className: "rounded-xl outline-2 outline-offset-4 outline-blue-500",
+        };
+      }
+      const diffStatus = diffStatuses.get(node.id);
+      if (diffStatus && DIFF_NODE_CLASSES[diffStatus]) {
+        return { ...node, className: DIFF_NODE_CLASSES[diffStatus] };
+      }
+      return node;
+    });
+  }, [nodes, issues, isValidationOpen, searchMatches, comparison]);
+
+  // Color edges added or reconnected since a compared version
+  const displayedEdges = useMemo(() => {
+    if (!comparison) return edges;
+
+    const diffStatuses = new Map(
+      comparison.diff.edges.map((edgeDiff) => [edgeDiff.edgeId, edgeDiff.status])
+    );
+    return edges.map((edge) => {
+      const diffStatus = diffStatuses.get(edge.id);
+      const stroke = diffStatus && DIFF_EDGE_COLORS[diffStatus];
+      return stroke
+        ? { ...edge, style: { ...defaultEdgeOptions.style, ...edge.style, stroke } }
+        : edge;
+    });
+  }, [edges, comparison]);
+
+  // Select a node and bring it into view
+  const focusNode = useCallback(
+    (nodeId: string) => {
+      setNodes((nds) =>
+        nds.map((node) => ({ ...node, selected: node.id === nodeId }))
+      );
+      reactFlowInstance.fitView({
+        nodes: [{ id: nodeId }],
+        duration: 400,
+        maxZoom: 1,
+      });
+    },
+    [reactFlowInstance, setNodes]
+  );
+
+  // Download the flow as RBM agent messages
+  const handleExportRbm = useCallback(() => {
+    if (
+      errorCount > 0 &&
+      !window.confirm(
+        `The flow has ${errorCount} error(s) that RBM will reject. Export anyway?`
+      )
+    ) {
+      setIsValidationOpen(true);
+      return;
+    }
+    downloadJson(exportToRbm(flowState), "rbm-messages.json");
+  }, [flowState, errorCount]);
+
+  // Add imported nodes to the right of the existing flow
+  const handleImportRbm = useCallback(
+    (imported: FlowState) => {
+      const offsetX = nodes.reduce(
+        (maxX, node) => Math.max(maxX, node.position.x + 400),
+        0
+      );
+      takeSnapshot();
+      setNodes((nds) => [
+        ...nds,
+        ...imported.nodes.map((node) => ({
+          ...node,
+          position: { x: node.position.x + offsetX, y: node.position.y },
+        })),
+      ]);
+      setEdges((eds) => [...eds, ...imported.edges]);
+      setEntryPoints((eps) => [...eps, ...(imported.entryPoints || [])]);
+      // Variables the flow already has keep their sample values
+      setVariables((vars) => [
+        ...vars,
+        ...(imported.variables || []).filter(
+          (variable) => !vars.some((existing) => existing.name === variable.name)
+        ),
+      ]);
+      // Only take over the imported start when the flow has none yet
+      setStartNodeId((id) => id ?? imported.startNodeId);
+    },
+    [nodes, setNodes, setEdges, takeSnapshot]
+  );
+
+  // Arrange the nodes as layers following the conversation, then show all of them
+  const handleAutoLayout = useCallback(() => {
+    takeSnapshot();
+    setNodes((nds) => layoutFlow(nds, edges, startNodeId, layoutOptions));
+    window.requestAnimationFrame(() => {
+      reactFlowInstance.fitView({ duration: 400 });
+    });
+  }, [edges, startNodeId, layoutOptions, reactFlowInstance, setNodes, takeSnapshot]);
+
+  const handleCompareVersion = useCallback(
+    async (versionId: string) => {
+      const version = versions.find((v) => v.id === versionId);
+      const versionState = await loadVersion(versionId);
+      if (version && versionState) {
+        setComparedVersion({ version, flowState: versionState });
+      }
+    },
+    [versions, loadVersion]
+  );
+
+  // Restoring is one undo step, so the flow before it is not lost
+  const handleRestoreVersion = useCallback(
+    async (versionId: string) => {
+      const versionState = await loadVersion(versionId);
+      if (!versionState) return;
+      takeSnapshot();
+      applyFlowState(versionState);
+      setComparedVersion(null);
+    },
+    [loadVersion, takeSnapshot, applyFlowState]
+  );
+
+  const handleStartNodeChange = useCallback(
+    (nodeId: string | undefined) => {
+      takeSnapshot();
+      setStartNodeId(nodeId);
+    },
+    [takeSnapshot]
+  );
+
+  // Typing a keyword is one undo step
+  const handleEntryPointsChange = useCallback(
+    (updated: EntryPoint[]) => {
+      takeSnapshot("entry-points");
+      setEntryPoints(updated);
+    },
+    [takeSnapshot]
   );
 
-  
+  // Typing a name or sample value is one undo step
+  const handleVariablesChange = useCallback(
+    (updated: FlowVariable[]) => {
+      takeSnapshot("variables");
+      setVariables(updated);
+    },
+    [takeSnapshot]
+  );
+
+  // Typing in a mock response is one undo step
+  const handleMockResponsesChange = useCallback(
+    (updated: MockResponse[]) => {
+      takeSnapshot("mock-responses");
+      setMockResponses(updated);
+    },
+    [takeSnapshot]
+  );
 
   // Add new node to the flow
   const addNode = useCallback(
@@ -146,6 +642,57 @@ const FlowBuilder: React.FC = () => {
             buttons: [],
           },
         } as CustomNode;
+      } else if (type === NodeTypes.TEXT_MESSAGE) {
+        newNode = {
+          id,
+          type,
+          position,
+          data: {
+            id,
+            text: "",
+            suggestions: [],
+          },
+        } as CustomNode;
+      } else if (type === NodeTypes.USER_INPUT) {
+        newNode = {
+          id,
+          type,
+          position,
+          data: {
+            id,
+            matchers: [
+              {
+                id: `matcher-${Date.now()}`,
+                type: MatcherTypes.FALLBACK,
+                value: "",
+              },
+            ],
+          },
+        } as CustomNode;
+      } else if (type === NodeTypes.CONDITION) {
+        newNode = {
+          id,
+          type,
+          position,
+          data: {
+            id,
+            conditions: [],
+          },
+        } as CustomNode;
+      } else if (type === NodeTypes.WEBHOOK) {
+        newNode = {
+          id,
+          type,
+          position,
+          data: {
+            id,
+            method: HttpMethods.GET,
+            url: "",
+            headers: [],
+            body: "",
+            responseMappings: [],
+          },
+        } as CustomNode;
       } else {
         // Carousel Card
         newNode = {
@@ -166,9 +713,10 @@ const FlowBuilder: React.FC = () => {
         } as CustomNode;
       }
 
+      takeSnapshot();
       setNodes((nds) => [...nds, newNode]);
     },
-    [reactFlowInstance, setNodes]
+    [reactFlowInstance, setNodes, takeSnapshot]
   );
 
   if (isLoading) {
@@ -179,71 +727,341 @@ const FlowBuilder: React.FC = () => {
     );
   }
 
+  if (loadError) {
+    return (
+      <div className="flex h-screen items-center justify-center p-4">
+        <div
+          role="alert"
+          className="max-w-md space-y-2 px-4 py-3 rounded-sm border border-red-300 bg-red-50 text-sm text-red-900"
+        >
+          <p className="flex items-center gap-2 font-medium">
+            <TriangleAlert className="h-4 w-4 shrink-0" />
+            This flow could not be opened
+          </p>
+          <p>{loadError}</p>
+          <p className="text-xs text-red-700">
+            The stored flow is left unchanged. Open another flow from the
+            library, or reset this one to start over.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className=" w-[100%]" style={{ height: "100vh" }}>
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        nodeTypes={nodeTypes}
-        defaultEdgeOptions={defaultEdgeOptions}
-        fitView
-      >
-        <Controls />
-        <MiniMap />
-        <Background gap={12} size={1} />
-
-        {/* Add to flow section */}
-        <Panel position="bottom-center" className="mb-4">
-          <div className="bg-white rounded-sm border border-gray-300 overflow-hidden m-2 w-[320px] shadow-lg">
-            {/* Header */}
-            <div className="bg-black text-white px-3 py-2 flex items-center justify-center gap-2">
-              <span className="text-lg">
-                <Plus className="w-4 h-4" />
-              </span>
-              <span className="text-xs font-medium">Add to flow</span>
-            </div>
-            <Tabs defaultValue="rich" className="w-full bg-gray-100">
-              <TabsList className="w-full flex border-b">
-              <TabsTrigger
-                value="text"
-                className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+    <FlowStoreContext.Provider value={flowStore}>
+      <div className=" w-[100%]" style={{ height: "100vh" }}>
+        <ReactFlow
+          nodes={displayedNodes}
+          edges={displayedEdges}
+          onNodesChange={onNodesChange}
+          onEdgesChange={onEdgesChange}
+          onConnect={onConnect}
+          onBeforeDelete={onBeforeDelete}
+          onNodeDragStart={() => takeSnapshot()}
+          onSelectionDragStart={() => takeSnapshot()}
+          nodeTypes={nodeTypes}
+          defaultEdgeOptions={defaultEdgeOptions}
+          fitView
+        >
+          <Controls />
+          <MiniMap />
+          <EntryPointBadges
+            nodes={nodes}
+            startNodeId={startNodeId}
+            entryPoints={entryPoints}
+          />
+          <Background gap={12} size={1} />
+
+          {saveError && (
+            <Panel position="top-center" className="!mt-16">
+              <div
+                role="alert"
+                className="flex items-center gap-2 max-w-md px-3 py-2 rounded-sm border border-amber-300 bg-amber-50 text-xs text-amber-900 shadow-lg"
               >
-                Text
-              </TabsTrigger>
-              <TabsTrigger
-                value="rich"
-                className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
-                onClick={() => addNode(NodeTypes.RICH_CARD)}
+                <TriangleAlert className="h-4 w-4 shrink-0" />
+                <span>
+                  Your latest changes are not saved. {saveError}
+                </span>
+              </div>
+            </Panel>
+          )}
+
+          <Panel position="top-right" className="flex flex-col items-end gap-2">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
               >
-                Rich
-              </TabsTrigger>
-              <TabsTrigger
-                value="carousel"
-                className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
-                onClick={() => addNode(NodeTypes.CAROUSEL_CARD)}
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
               >
-                Carousel
-              </TabsTrigger>
-              </TabsList>
-            </Tabs>
-            {/* Tabs for Bot says / User says */}
-              <Tabs defaultValue="bot" className="w-full">
-              <TabsList className="w-full flex gap-2">
-                <TabsTrigger value="bot" className="flex-1 !p-1 rounded-none text-xs font-medium bg-gray-100">
-                Bot says
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setIsSearchOpen(!isSearchOpen)}
+                title="Search (Ctrl+F)"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsEntryPointsOpen(!isEntryPointsOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <Flag className="h-4 w-4" />
+                Entry points
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsVariablesOpen(!isVariablesOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <Braces className="h-4 w-4" />
+                Variables
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsMocksOpen(!isMocksOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <Server className="h-4 w-4" />
+                Mocks
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsLayoutOpen(!isLayoutOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <LayoutGrid className="h-4 w-4" />
+                Layout
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsVersionsOpen(!isVersionsOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <History className="h-4 w-4" />
+                Versions
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsValidationOpen(!isValidationOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <ListChecks className="h-4 w-4" />
+                Check
+                {issues.length > 0 && (
+                  <span
+                    className={`rounded-full px-1.5 text-xs text-white ${
+                      errorCount > 0 ? "bg-red-600" : "bg-amber-500"
+                    }`}
+                  >
+                    {issues.length}
+                  </span>
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsImportOpen(!isImportOpen)}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <FileInput className="h-4 w-4" />
+                Import RBM
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleExportRbm}
+                className="px-4 py-2 rounded-md text-sm"
+              >
+                <Download className="h-4 w-4" />
+                Export RBM
+              </Button>
+            </div>
+            {isSearchOpen && (
+              <SearchPanel
+                inputRef={searchInputRef}
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                matches={searchMatches}
+                onSelectNode={focusNode}
+                onClose={() => setIsSearchOpen(false)}
+              />
+            )}
+            {isEntryPointsOpen && (
+              <EntryPointsPanel
+                nodes={nodes}
+                startNodeId={startNodeId}
+                entryPoints={entryPoints}
+                onStartNodeChange={handleStartNodeChange}
+                onEntryPointsChange={handleEntryPointsChange}
+                onClose={() => setIsEntryPointsOpen(false)}
+              />
+            )}
+            {isVariablesOpen && (
+              <VariablesPanel
+                variables={variables}
+                onChange={handleVariablesChange}
+                onClose={() => setIsVariablesOpen(false)}
+              />
+            )}
+            {isMocksOpen && (
+              <MockResponsesPanel
+                mockResponses={mockResponses}
+                onChange={handleMockResponsesChange}
+                onClose={() => setIsMocksOpen(false)}
+              />
+            )}
+            {isLayoutOpen && (
+              <LayoutPanel
+                options={layoutOptions}
+                onOptionsChange={setLayoutOptions}
+                onLayout={handleAutoLayout}
+                onClose={() => setIsLayoutOpen(false)}
+              />
+            )}
+            {isVersionsOpen && (
+              <VersionsPanel
+                versions={versions}
+                error={flowVersions.error}
+                onSave={(label) => flowVersions.saveVersion(label, flowState)}
+                onCompare={handleCompareVersion}
+                onRestore={handleRestoreVersion}
+                onDelete={(versionId) => {
+                  if (comparedVersion?.version.id === versionId) {
+                    setComparedVersion(null);
+                  }
+                  flowVersions.deleteVersion(versionId);
+                }}
+                comparison={comparison}
+                onStopComparing={() => setComparedVersion(null)}
+                onSelectNode={focusNode}
+                onClose={() => {
+                  setIsVersionsOpen(false);
+                  setComparedVersion(null);
+                }}
+              />
+            )}
+            {isValidationOpen && (
+              <ValidationPanel
+                issues={issues}
+                nodes={nodes}
+                onSelectNode={focusNode}
+                onClose={() => setIsValidationOpen(false)}
+              />
+            )}
+            {isImportOpen && (
+              <RbmImportPanel
+                onImport={handleImportRbm}
+                onClose={() => setIsImportOpen(false)}
+              />
+            )}
+          </Panel>
+
+          {/* Add to flow section */}
+          <Panel position="bottom-center" className="mb-4">
+            <div className="bg-white rounded-sm border border-gray-300 overflow-hidden m-2 w-[320px] shadow-lg">
+              {/* Header */}
+              <div className="bg-black text-white px-3 py-2 flex items-center justify-center gap-2">
+                <span className="text-lg">
+                  <Plus className="w-4 h-4" />
+                </span>
+                <span className="text-xs font-medium">Add to flow</span>
+              </div>
+              {speaker === "bot" ? (
+              <Tabs defaultValue="rich" className="w-full bg-gray-100">
+                <TabsList className="w-full flex border-b">
+                <TabsTrigger
+                  value="text"
+                  className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+                  onClick={() => addNode(NodeTypes.TEXT_MESSAGE)}
+                >
+                  Text
+                </TabsTrigger>
+                <TabsTrigger
+                  value="rich"
+                  className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+                  onClick={() => addNode(NodeTypes.RICH_CARD)}
+                >
+                  Rich
                 </TabsTrigger>
-                <TabsTrigger value="user" className="flex-1 !p-1 rounded-none text-xs font-medium bg-gray-100">
-                User says
+                <TabsTrigger
+                  value="carousel"
+                  className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+                  onClick={() => addNode(NodeTypes.CAROUSEL_CARD)}
+                >
+                  Carousel
                 </TabsTrigger>
-              </TabsList>
+                </TabsList>
               </Tabs>
-          </div>
-        </Panel>
-      </ReactFlow>
-    </div>
+              ) : speaker === "user" ? (
+              <Tabs defaultValue="input" className="w-full bg-gray-100">
+                <TabsList className="w-full flex border-b">
+                <TabsTrigger
+                  value="input"
+                  className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+                  onClick={() => addNode(NodeTypes.USER_INPUT)}
+                >
+                  Free text
+                </TabsTrigger>
+                </TabsList>
+              </Tabs>
+              ) : (
+              <Tabs defaultValue="condition" className="w-full bg-gray-100">
+                <TabsList className="w-full flex border-b">
+                <TabsTrigger
+                  value="condition"
+                  className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+                  onClick={() => addNode(NodeTypes.CONDITION)}
+                >
+                  Condition
+                </TabsTrigger>
+                <TabsTrigger
+                  value="webhook"
+                  className="flex-1 !p-1 rounded-none text-xs font-medium data-[state=active]:bg-white data-[state=active]:text-black"
+                  onClick={() => addNode(NodeTypes.WEBHOOK)}
+                >
+                  API call
+                </TabsTrigger>
+                </TabsList>
+              </Tabs>
+              )}
+              {/* Tabs for Bot says / User says / Logic */}
+                <Tabs
+                  value={speaker}
+                  onValueChange={(value) =>
+                    setSpeaker(value as "bot" | "user" | "logic")
+                  }
+                  className="w-full"
+                >
+                <TabsList className="w-full flex gap-2">
+                  <TabsTrigger value="bot" className="flex-1 !p-1 rounded-none text-xs font-medium bg-gray-100 data-[state=active]:bg-white">
+                  Bot says
+                  </TabsTrigger>
+                  <TabsTrigger value="user" className="flex-1 !p-1 rounded-none text-xs font-medium bg-gray-100 data-[state=active]:bg-white">
+                  User says
+                  </TabsTrigger>
+                  <TabsTrigger value="logic" className="flex-1 !p-1 rounded-none text-xs font-medium bg-gray-100 data-[state=active]:bg-white">
+                  Logic
+                  </TabsTrigger>
+                </TabsList>
+                </Tabs>
+            </div>
+          </Panel>
+        </ReactFlow>
+      </div>
+    </FlowStoreContext.Provider>
   );
 };
 
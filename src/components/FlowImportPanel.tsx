@@ -0,0 +1,91 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Button } from "./ui/button";
+import { LoadedFlow } from "../lib/flowSchema";
+import { ImportModes } from "../lib/flowFile";
+
+interface FlowImportPanelProps {
+  /** Name of the picked file */
+  fileName: string;
+  /** Flow read from the file, null when it could not be read */
+  loaded: LoadedFlow | null;
+  /** Why the file could not be read or imported */
+  error: string | null;
+  /** Set while the flow is being replaced or merged */
+  isImporting: boolean;
+  onImport: (mode: ImportModes) => void;
+  onClose: () => void;
+}
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * FlowImportPanel Component
+ * Previews a flow file before it replaces the open flow or is merged into it.
+ */
+const FlowImportPanel: React.FC<FlowImportPanelProps> = ({
+  fileName,
+  loaded,
+  error,
+  isImporting,
+  onImport,
+  onClose,
+}) => (
+  <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+    <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+      <span className="text-xs font-medium">Import flow</span>
+      <button onClick={onClose} aria-label="Close">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="p-3 space-y-3">
+      <p className="text-xs text-gray-500 truncate">{fileName}</p>
+      {loaded && (
+        <div>
+          <p className="text-sm font-medium truncate">
+            {loaded.meta?.name || "Untitled flow"}
+          </p>
+          {loaded.meta?.description && (
+            <p className="text-xs text-gray-500 line-clamp-2">
+              {loaded.meta.description}
+            </p>
+          )}
+          <p className="mt-1 text-xs text-gray-700">
+            {plural(loaded.flowState.nodes.length, "node")},{" "}
+            {plural(loaded.flowState.edges.length, "connection")}
+          </p>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {loaded && (
+        <>
+          <p className="text-xs text-gray-500">
+            The open flow is saved as a version first, so it can be restored
+            from Versions.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              className="text-sm"
+              disabled={isImporting}
+              onClick={() => onImport(ImportModes.REPLACE)}
+            >
+              Replace current flow
+            </Button>
+            <Button
+              variant="outline"
+              className="text-sm"
+              disabled={isImporting}
+              title="Add the imported nodes next to the open flow with new ids"
+              onClick={() => onImport(ImportModes.MERGE)}
+            >
+              Merge into current flow
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default FlowImportPanel;
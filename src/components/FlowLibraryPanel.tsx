@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from "react";
+import { Check, Copy, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { FlowMeta } from "../types/FlowTypes";
+
+interface FlowLibraryPanelProps {
+  flows: FlowMeta[];
+  activeFlowId: string | null;
+  /** Why the last library change failed */
+  error: string | null;
+  onCreate: () => void;
+  onUpdate: (
+    flowId: string,
+    changes: Partial<Pick<FlowMeta, "name" | "description">>
+  ) => void;
+  onDuplicate: (flowId: string) => void;
+  onDelete: (flowId: string) => void;
+  onSwitch: (flowId: string) => void;
+  /** Called when the panel opens, to show fresh update times */
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/**
+ * FlowLibraryPanel Component
+ * Lists the stored flows and lets the user open, create, rename, duplicate
+ * and delete them.
+ */
+const FlowLibraryPanel: React.FC<FlowLibraryPanelProps> = ({
+  flows,
+  activeFlowId,
+  error,
+  onCreate,
+  onUpdate,
+  onDuplicate,
+  onDelete,
+  onSwitch,
+  onRefresh,
+  onClose,
+}) => {
+  // Flow whose name and description are being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    onRefresh();
+  }, [onRefresh]);
+
+  const startEditing = (flow: FlowMeta) => {
+    setEditingId(flow.id);
+    setName(flow.name);
+    setDescription(flow.description);
+  };
+
+  const saveEditing = () => {
+    if (editingId && name.trim() !== "") {
+      onUpdate(editingId, { name: name.trim(), description: description.trim() });
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (flow: FlowMeta) => {
+    if (window.confirm(`Delete "${flow.name}"? This cannot be undone.`)) {
+      onDelete(flow.id);
+    }
+  };
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Flows</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="max-h-96 overflow-y-auto divide-y">
+        {flows.map((flow) => (
+          <li
+            key={flow.id}
+            className={`p-3 ${flow.id === activeFlowId ? "bg-gray-100" : ""}`}
+          >
+            {editingId === flow.id ? (
+              <div className="space-y-2">
+                <Input
+                  value={name}
+                  placeholder="Flow name"
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && saveEditing()}
+                  autoFocus
+                />
+                <Input
+                  value={description}
+                  placeholder="Description"
+                  onChange={(e) => setDescription(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && saveEditing()}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingId(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={saveEditing}
+                    disabled={name.trim() === ""}
+                  >
+                    <Check className="h-4 w-4" />
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-start gap-2">
+                <button
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => {
+                    onSwitch(flow.id);
+                    onClose();
+                  }}
+                >
+                  <p className="text-sm font-medium truncate">{flow.name}</p>
+                  {flow.description && (
+                    <p className="text-xs text-gray-500 truncate">
+                      {flow.description}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400">
+                    Updated {formatDate(flow.updatedAt)} · Created{" "}
+                    {formatDate(flow.createdAt)}
+                  </p>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  title="Rename"
+                  onClick={() => startEditing(flow)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  title="Duplicate"
+                  onClick={() => onDuplicate(flow.id)}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  title="Delete"
+                  onClick={() => handleDelete(flow)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="p-3 border-t space-y-2">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <Button onClick={onCreate} className="w-full text-sm">
+          <Plus className="h-4 w-4" />
+          New flow
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FlowLibraryPanel;
@@ -0,0 +1,104 @@
+import React from "react";
+import { LayoutGrid, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import { LayoutDirections, LayoutOptions } from "../lib/autoLayout";
+
+const DIRECTION_LABELS: Record<LayoutDirections, string> = {
+  [LayoutDirections.LEFT_RIGHT]: "Left to right",
+  [LayoutDirections.TOP_BOTTOM]: "Top to bottom",
+};
+
+interface LayoutPanelProps {
+  options: LayoutOptions;
+  onOptionsChange: (options: LayoutOptions) => void;
+  /** Arrange the flow with the current options */
+  onLayout: () => void;
+  onClose: () => void;
+}
+
+/**
+ * LayoutPanel Component
+ * Options for arranging the flow automatically, as layers of nodes that
+ * follow the conversation from the start node.
+ */
+const LayoutPanel: React.FC<LayoutPanelProps> = ({
+  options,
+  onOptionsChange,
+  onLayout,
+  onClose,
+}) => (
+  <div className="w-[320px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+    <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+      <span className="text-xs font-medium">Auto layout</span>
+      <button onClick={onClose} aria-label="Close">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500">Direction</span>
+        <Select
+          value={options.direction}
+          onValueChange={(value: string) =>
+            onOptionsChange({ ...options, direction: value as LayoutDirections })
+          }
+        >
+          <SelectTrigger className="w-40 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+            <span className="text-xs font-normal">
+              {DIRECTION_LABELS[options.direction]}
+            </span>
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(LayoutDirections).map((direction) => (
+              <SelectItem key={direction} value={direction} className="text-xs py-2">
+                {DIRECTION_LABELS[direction]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500">Space between steps</span>
+        <Input
+          type="number"
+          min={0}
+          value={options.layerSpacing}
+          onChange={(e) =>
+            onOptionsChange({ ...options, layerSpacing: Number(e.target.value) })
+          }
+          className="w-40 text-xs"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500">Space between branches</span>
+        <Input
+          type="number"
+          min={0}
+          value={options.nodeSpacing}
+          onChange={(e) =>
+            onOptionsChange({ ...options, nodeSpacing: Number(e.target.value) })
+          }
+          className="w-40 text-xs"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Cards with a locked position stay where they are.
+      </p>
+    </div>
+    <div className="p-3 border-t">
+      <Button onClick={onLayout} className="w-full text-sm">
+        <LayoutGrid className="h-4 w-4" />
+        Arrange flow
+      </Button>
+    </div>
+  </div>
+);
+
+export default LayoutPanel;
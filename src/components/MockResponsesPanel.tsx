@@ -0,0 +1,151 @@
+import React from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import { HttpMethods } from "../types/CardTypes";
+import { MockResponse } from "../types/FlowTypes";
+
+interface MockResponsesPanelProps {
+  mockResponses: MockResponse[];
+  onChange: (mockResponses: MockResponse[]) => void;
+  onClose: () => void;
+}
+
+const isJson = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * MockResponsesPanel Component
+ * Manages the responses the preview gives API call nodes. The first mock
+ * with the same method and a fitting URL answers the call.
+ */
+const MockResponsesPanel: React.FC<MockResponsesPanelProps> = ({
+  mockResponses,
+  onChange,
+  onClose,
+}) => {
+  const addMockResponse = () => {
+    onChange([
+      ...mockResponses,
+      {
+        id: `mock-${Date.now()}`,
+        method: HttpMethods.GET,
+        url: "",
+        status: 200,
+        body: "{}",
+      },
+    ]);
+  };
+
+  // Replace an edited mock response
+  const updateMockResponse = (updated: MockResponse) => {
+    onChange(
+      mockResponses.map((mock) => (mock.id === updated.id ? updated : mock))
+    );
+  };
+
+  const removeMockResponse = (mockId: string) => {
+    onChange(mockResponses.filter((mock) => mock.id !== mockId));
+  };
+
+  return (
+    <div className="w-[400px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Mock responses</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="p-3 text-xs text-muted-foreground border-b">
+        The preview answers API calls with these responses instead of sending
+        them. Use * in the URL to match any text, e.g.
+        https://api.example.com/orders/*
+      </p>
+      <div className="max-h-96 overflow-y-auto divide-y">
+        {mockResponses.map((mock) => (
+          <div key={mock.id} className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Select
+                value={mock.method}
+                onValueChange={(value: string) =>
+                  updateMockResponse({ ...mock, method: value as HttpMethods })
+                }
+              >
+                <SelectTrigger className="w-24 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+                  <span className="text-xs font-normal">{mock.method}</span>
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(HttpMethods).map((method) => (
+                    <SelectItem key={method} value={method} className="text-xs py-2">
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={mock.url}
+                placeholder="URL"
+                onChange={(e) => updateMockResponse({ ...mock, url: e.target.value })}
+                className="text-xs"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 shrink-0"
+                title="Remove mock response"
+                onClick={() => removeMockResponse(mock.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 shrink-0">Status</span>
+              <Input
+                type="number"
+                min={100}
+                max={599}
+                value={mock.status}
+                onChange={(e) =>
+                  updateMockResponse({ ...mock, status: Number(e.target.value) })
+                }
+                className="w-24 text-xs"
+              />
+            </div>
+            <Textarea
+              value={mock.body}
+              placeholder='{ "status": "shipped" }'
+              aria-invalid={mock.body.trim() !== "" && !isJson(mock.body)}
+              onChange={(e) => updateMockResponse({ ...mock, body: e.target.value })}
+              className="min-h-20 text-xs font-mono"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="p-3 border-t">
+        <Button
+          variant="outline"
+          onClick={addMockResponse}
+          className="w-full text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          Add mock response
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MockResponsesPanel;
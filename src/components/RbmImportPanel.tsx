@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { Upload, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { Input } from "./ui/input";
+import { FlowState } from "../types/FlowTypes";
+import { importFromRbm } from "../lib/rbmImport";
+
+interface RbmImportPanelProps {
+  /** Called with the imported nodes and edges */
+  onImport: (flowState: FlowState) => void;
+  onClose: () => void;
+}
+
+/**
+ * RbmImportPanel Component
+ * Lets the user paste or upload RBM text / rich card / carousel message JSON
+ * and adds the resulting nodes to the canvas.
+ */
+const RbmImportPanel: React.FC<RbmImportPanelProps> = ({ onImport, onClose }) => {
+  const [json, setJson] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setJson(reader.result as string);
+        setError(null);
+      };
+      reader.readAsText(file);
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(importFromRbm(JSON.parse(json)));
+      setJson("");
+      setError(null);
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof SyntaxError
+          ? `Invalid JSON: ${err.message}`
+          : (err as Error).message
+      );
+    }
+  };
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Import RBM messages</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 space-y-2">
+        <p className="text-xs text-gray-500">
+          Paste agent message JSON with text, rich cards or carousels. Suggestions
+          whose postback data names another message are connected to it.
+        </p>
+        <Textarea
+          value={json}
+          placeholder='{ "contentMessage": { "richCard": { ... } } }'
+          onChange={(e) => {
+            setJson(e.target.value);
+            setError(null);
+          }}
+          className="w-full min-h-40 px-2 py-1 text-xs font-mono border border-gray-300 rounded-md"
+        />
+        <label className="cursor-pointer flex items-center gap-2 text-xs text-gray-600">
+          <Upload className="h-4 w-4" />
+          <span>Or upload a .json file</span>
+          <Input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileUpload}
+          />
+        </label>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <Button
+          onClick={handleImport}
+          disabled={json.trim() === ""}
+          className="w-full text-sm"
+        >
+          Add to canvas
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RbmImportPanel;
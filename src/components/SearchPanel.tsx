@@ -0,0 +1,87 @@
+import React from "react";
+import { Search, X } from "lucide-react";
+import { Input } from "./ui/input";
+import { SearchMatch } from "../lib/flowSearch";
+
+interface SearchPanelProps {
+  /** Lets Ctrl+F focus the search box while the panel is open */
+  inputRef?: React.Ref<HTMLInputElement>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  /** Matches of the query, kept up to date as the flow changes */
+  matches: SearchMatch[];
+  /** Called when the user picks a match */
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * SearchPanel Component
+ * Searches the texts of cards, messages and actions. Picking a match
+ * brings its node into view and selects it.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  inputRef,
+  query,
+  onQueryChange,
+  matches,
+  onSelectNode,
+  onClose,
+}) => {
+  const nodeCount = new Set(matches.map((match) => match.nodeId)).size;
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Search</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 border-b space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            ref={inputRef}
+            autoFocus
+            value={query}
+            placeholder="Titles, descriptions and actions"
+            className="pl-8 text-xs"
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                onClose();
+              } else if (e.key === "Enter" && matches.length > 0) {
+                onSelectNode(matches[0].nodeId);
+              }
+            }}
+          />
+        </div>
+        {query.trim() !== "" && (
+          <p className="text-xs text-muted-foreground">
+            {matches.length === 0
+              ? "No matches"
+              : `${matches.length} ${matches.length === 1 ? "match" : "matches"} in ${nodeCount} ${nodeCount === 1 ? "node" : "nodes"}`}
+          </p>
+        )}
+      </div>
+      {matches.length > 0 && (
+        <ul className="max-h-96 overflow-y-auto divide-y">
+          {matches.map((match) => (
+            <li key={match.id}>
+              <button
+                className="w-full p-3 text-left hover:bg-gray-50"
+                onClick={() => onSelectNode(match.nodeId)}
+              >
+                <span className="block text-xs truncate">{match.text}</span>
+                <span className="block text-xs text-gray-400">{match.field}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
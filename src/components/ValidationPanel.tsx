@@ -0,0 +1,79 @@
+import React from "react";
+import { CircleAlert, CircleCheck, TriangleAlert, X } from "lucide-react";
+import { ValidationIssue } from "../lib/flowValidation";
+import { getNodeLabel } from "../lib/nodeLabels";
+import { CustomNode } from "../types/FlowTypes";
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  nodes: CustomNode[];
+  /** Called when the user picks an issue that belongs to a node */
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * ValidationPanel Component
+ * Lists the problems found in the flow, errors first. Picking an issue
+ * focuses the node it belongs to.
+ */
+const ValidationPanel: React.FC<ValidationPanelProps> = ({
+  issues,
+  nodes,
+  onSelectNode,
+  onClose,
+}) => {
+  const sortedIssues = [
+    ...issues.filter((issue) => issue.severity === "error"),
+    ...issues.filter((issue) => issue.severity === "warning"),
+  ];
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Flow check</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {sortedIssues.length === 0 ? (
+        <p className="p-3 flex items-center gap-2 text-xs text-green-700">
+          <CircleCheck className="h-4 w-4" />
+          No problems found, the flow is ready to publish.
+        </p>
+      ) : (
+        <ul className="max-h-96 overflow-y-auto divide-y">
+          {sortedIssues.map((issue) => {
+            const node = issue.nodeId ? nodesById.get(issue.nodeId) : undefined;
+            return (
+              <li key={issue.id}>
+                <button
+                  className="w-full p-3 flex items-start gap-2 text-left hover:bg-gray-50 disabled:cursor-default"
+                  disabled={!node}
+                  onClick={() => node && onSelectNode(node.id)}
+                >
+                  {issue.severity === "error" ? (
+                    <CircleAlert className="h-4 w-4 shrink-0 text-red-600" />
+                  ) : (
+                    <TriangleAlert className="h-4 w-4 shrink-0 text-amber-500" />
+                  )}
+                  <span className="min-w-0">
+                    <span className="block text-xs">{issue.message}</span>
+                    {node && (
+                      <span className="block text-xs text-gray-400 truncate">
+                        {getNodeLabel(node)}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
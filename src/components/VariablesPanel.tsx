@@ -0,0 +1,127 @@
+import React from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { FlowVariable } from "../types/FlowTypes";
+import { isValidVariableName } from "../lib/templating";
+
+interface VariablesPanelProps {
+  variables: FlowVariable[];
+  onChange: (variables: FlowVariable[]) => void;
+  onClose: () => void;
+}
+
+// First free default name, so new variables never clash
+const nextVariableName = (variables: FlowVariable[]): string => {
+  const names = new Set(variables.map((variable) => variable.name));
+  let index = variables.length + 1;
+  while (names.has(`variable_${index}`)) index++;
+  return `variable_${index}`;
+};
+
+/**
+ * VariablesPanel Component
+ * Manages the variables of the flow. Message text references them as
+ * {{name}}, user input steps can store the reply in one, and the preview
+ * uses the sample values until a value is stored.
+ */
+const VariablesPanel: React.FC<VariablesPanelProps> = ({
+  variables,
+  onChange,
+  onClose,
+}) => {
+  const addVariable = () => {
+    onChange([
+      ...variables,
+      { id: `var-${Date.now()}`, name: nextVariableName(variables), sampleValue: "" },
+    ]);
+  };
+
+  // Replace an edited variable
+  const updateVariable = (updated: FlowVariable) => {
+    onChange(
+      variables.map((variable) =>
+        variable.id === updated.id ? updated : variable
+      )
+    );
+  };
+
+  const removeVariable = (variableId: string) => {
+    onChange(variables.filter((variable) => variable.id !== variableId));
+  };
+
+  const getNameError = (variable: FlowVariable): string | null => {
+    if (!isValidVariableName(variable.name)) {
+      return "Use letters, digits and underscores, not starting with a digit";
+    }
+    if (variables.some((other) => other.id !== variable.id && other.name === variable.name)) {
+      return "Another variable has this name";
+    }
+    return null;
+  };
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Variables</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="p-3 text-xs text-muted-foreground border-b">
+        Use a variable in message text as {"{{name}}"}. The preview shows the
+        sample value until the conversation stores a reply in it.
+      </p>
+      <div className="max-h-80 overflow-y-auto divide-y">
+        {variables.map((variable) => {
+          const nameError = getNameError(variable);
+          return (
+            <div key={variable.id} className="p-3 space-y-1">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={variable.name}
+                  placeholder="Name"
+                  aria-invalid={!!nameError}
+                  onChange={(e) =>
+                    updateVariable({ ...variable, name: e.target.value })
+                  }
+                  className="text-xs font-mono"
+                />
+                <Input
+                  value={variable.sampleValue}
+                  placeholder="Sample value"
+                  onChange={(e) =>
+                    updateVariable({ ...variable, sampleValue: e.target.value })
+                  }
+                  className="text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7 shrink-0"
+                  title="Remove variable"
+                  onClick={() => removeVariable(variable.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {nameError && <p className="text-xs text-red-600">{nameError}</p>}
+            </div>
+          );
+        })}
+      </div>
+      <div className="p-3 border-t">
+        <Button
+          variant="outline"
+          onClick={addVariable}
+          className="w-full text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          Add variable
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VariablesPanel;
@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import { GitCompare, RotateCcw, Save, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { DiffStatuses, FlowDiff } from "../lib/flowDiff";
+import { FlowVersion } from "../types/FlowTypes";
+
+interface VersionsPanelProps {
+  /** Saved versions, newest first */
+  versions: FlowVersion[];
+  /** Why the last version change failed */
+  error: string | null;
+  onSave: (label: string) => void;
+  onCompare: (versionId: string) => void;
+  onRestore: (versionId: string) => void;
+  onDelete: (versionId: string) => void;
+  /** Version the flow is compared with, and how the flow differs from it */
+  comparison: { version: FlowVersion; diff: FlowDiff } | null;
+  onStopComparing: () => void;
+  /** Called when the user picks a changed node */
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const STATUS_STYLES: Record<DiffStatuses, string> = {
+  [DiffStatuses.ADDED]: "bg-green-100 text-green-800",
+  [DiffStatuses.REMOVED]: "bg-red-100 text-red-800",
+  [DiffStatuses.CHANGED]: "bg-violet-100 text-violet-800",
+};
+
+const StatusBadge: React.FC<{ status: DiffStatuses }> = ({ status }) => (
+  <span
+    className={`shrink-0 rounded px-1.5 text-[10px] font-medium uppercase ${STATUS_STYLES[status]}`}
+  >
+    {status}
+  </span>
+);
+
+/**
+ * VersionsPanel Component
+ * Saves labelled versions of the flow and lists them to compare with or restore.
+ * While comparing, the added, removed and changed nodes and edges are listed
+ * with the fields that changed on each node.
+ */
+const VersionsPanel: React.FC<VersionsPanelProps> = ({
+  versions,
+  error,
+  onSave,
+  onCompare,
+  onRestore,
+  onDelete,
+  comparison,
+  onStopComparing,
+  onSelectNode,
+  onClose,
+}) => {
+  const [label, setLabel] = useState("");
+
+  const handleSave = () => {
+    onSave(label.trim() || `Version ${versions.length + 1}`);
+    setLabel("");
+  };
+
+  const handleDelete = (version: FlowVersion) => {
+    if (window.confirm(`Delete the version "${version.label}"? This cannot be undone.`)) {
+      onDelete(version.id);
+    }
+  };
+
+  const diff = comparison?.diff;
+  const hasChanges = !!diff && (diff.nodes.length > 0 || diff.edges.length > 0);
+
+  return (
+    <div className="w-[360px] bg-white rounded-sm border border-gray-300 shadow-lg text-left">
+      <div className="bg-black text-white px-3 py-2 flex items-center justify-between">
+        <span className="text-xs font-medium">Versions</span>
+        <button onClick={onClose} aria-label="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 border-b space-y-2">
+        <div className="flex gap-2">
+          <Input
+            value={label}
+            placeholder={`Version ${versions.length + 1}`}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+          <Button onClick={handleSave} className="text-sm">
+            <Save className="h-4 w-4" />
+            Save version
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      {comparison && diff && (
+        <div className="border-b">
+          <div className="px-3 py-2 flex items-center justify-between bg-gray-50">
+            <span className="text-xs font-medium truncate">
+              Changes since "{comparison.version.label}"
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={onStopComparing}
+            >
+              Stop comparing
+            </Button>
+          </div>
+          {!hasChanges ? (
+            <p className="p-3 text-xs text-gray-500">
+              No changes since this version.
+            </p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto divide-y">
+              {diff.nodes.map((nodeDiff) => (
+                <li key={nodeDiff.nodeId}>
+                  <button
+                    className="w-full p-3 text-left hover:bg-gray-50 disabled:cursor-default"
+                    disabled={nodeDiff.status === DiffStatuses.REMOVED}
+                    onClick={() => onSelectNode(nodeDiff.nodeId)}
+                  >
+                    <span className="flex items-center gap-2">
+                      <StatusBadge status={nodeDiff.status} />
+                      <span className="text-xs truncate">{nodeDiff.label}</span>
+                    </span>
+                    {nodeDiff.changes.map((change, index) => (
+                      <span
+                        key={`${change.field}-${index}`}
+                        className="block mt-1 text-xs"
+                      >
+                        <span className="text-gray-500">{change.field}: </span>
+                        {change.before && (
+                          <span className="text-red-700 line-through break-words">
+                            {change.before}
+                          </span>
+                        )}
+                        {change.before && change.after && " → "}
+                        {change.after && (
+                          <span className="text-green-700 break-words">
+                            {change.after}
+                          </span>
+                        )}
+                      </span>
+                    ))}
+                  </button>
+                </li>
+              ))}
+              {diff.edges.map((edgeDiff) => (
+                <li
+                  key={edgeDiff.edgeId}
+                  className="p-3 flex items-center gap-2"
+                >
+                  <StatusBadge status={edgeDiff.status} />
+                  <span className="text-xs truncate">
+                    Connection {edgeDiff.label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="p-3 text-xs text-gray-500">
+          No saved versions yet. Save one before larger changes to compare with
+          it or go back to it later.
+        </p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto divide-y">
+          {versions.map((version) => (
+            <li
+              key={version.id}
+              className={`p-3 flex items-start gap-2 ${
+                comparison?.version.id === version.id ? "bg-gray-100" : ""
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{version.label}</p>
+                <p className="text-xs text-gray-400">
+                  Saved {formatDate(version.createdAt)}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                title="Compare with the current flow"
+                onClick={() => onCompare(version.id)}
+              >
+                <GitCompare className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                title="Restore this version"
+                onClick={() => onRestore(version.id)}
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                title="Delete"
+                onClick={() => handleDelete(version)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VersionsPanel;
@@ -1,44 +1,135 @@
-import React, { useState, useEffect } from "react";
-import { ReactFlow, Background } from "@xyflow/react"; // Importing ReactFlow and Background components from the React Flow library
+import React, { useState, useEffect, useMemo } from "react";
+import { ReactFlow, Background, Edge, Panel } from "@xyflow/react"; // Importing ReactFlow and Background components from the React Flow library
 import "@xyflow/react/dist/style.css"; // Importing the required styles for React Flow
-import { nodeTypes } from "./nodes/NodeTypes"; // Importing custom node types for React Flow
-import dummyData from "../data/cards.json"; // Importing dummy data for the flow
+import { viewNodeTypes } from "./nodes/NodeTypes"; // Importing the read-only node types for React Flow
+import { Button } from "./ui/button";
+import ConversationPreview from "./ConversationPreview";
+import { CustomNode, FlowState } from "../types/FlowTypes";
+import { getFlowStorage } from "../lib/flowStorage";
+import { waitForPendingSave } from "../hooks/useAutoSave";
+
+interface ViewModeProps {
+  /** Id of the stored flow to show */
+  flowId?: string;
+  /** Flow opened from a share link, shown instead of a stored flow */
+  sharedFlow?: FlowState;
+}
 
 /**
  * ViewMode Component
- * This component renders a flow diagram using React Flow with nodes and edges.
- * It is designed to display data in a read-only mode.
+ * This component renders the stored flow that is open in the editor, or a flow
+ * opened from a share link, using React Flow.
+ * It is designed to display data in a read-only mode, either as the canvas
+ * or as a conversation preview that plays the flow like a phone.
+ * Nodes render without inputs and there is no flow store, so nothing on the
+ * canvas can change the flow, which is what keeps share links read-only.
  */
-const ViewMode: React.FC = () => {
+const ViewMode: React.FC<ViewModeProps> = ({ flowId, sharedFlow }) => {
   // State to manage the nodes in the flow
-  const [nodes, setNodes] = useState<any[]>([]);
+  const [nodes, setNodes] = useState<CustomNode[]>([]);
   // State to manage the edges in the flow
-  const [edges, setEdges] = useState<any[]>([]);
+  const [edges, setEdges] = useState<Edge[]>([]);
+  // Start node, entry points, variables and mock responses of the flow
+  const [flowSettings, setFlowSettings] = useState<
+    Omit<FlowState, "nodes" | "edges">
+  >({});
+  // Why the stored flow could not be shown
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Whether the flow is shown as a canvas or played as a conversation
+  const [isPreview, setIsPreview] = useState(false);
 
   // useEffect hook to fetch and set flow data when the component mounts
   useEffect(() => {
+    let cancelled = false;
+
+    const showFlow = ({ nodes: shownNodes, edges: shownEdges, ...settings }: FlowState) => {
+      setNodes(shownNodes);
+      setEdges(shownEdges);
+      setFlowSettings(settings);
+    };
+
     /**
      * fetchFlowData Function
-     * This function fetches flow data (nodes and edges) and updates the component's state.
-     * In this case, it uses dummy data for demonstration purposes.
+     * This function loads the flow from the flow storage and updates the component's state.
+     * Changes the editor saves as it closes are waited for, so the view is never behind it.
      */
-    const fetchFlowData = async () => {
+    const fetchFlowData = async (id: string) => {
       try {
-        // Assigning the dummy data to the `data` constant
-        const data = dummyData;
+        await waitForPendingSave(id);
+        const storage = await getFlowStorage();
+        const saved = await storage.load(id);
+        if (cancelled || !saved) return;
 
-        // Setting the nodes and edges state with the fetched data
-        setNodes(data.nodes);
-        setEdges(data.edges);
+        // Setting the nodes and edges state with the loaded flow
+        showFlow(saved);
       } catch (error) {
         // Logging any errors that occur during data fetching
         console.error("Error loading flow data:", error);
+        if (!cancelled) {
+          setLoadError((error as Error).message);
+        }
       }
     };
 
-    // Calling the fetchFlowData function
-    fetchFlowData();
-  }, []); // Empty dependency array ensures this runs only once when the component mounts
+    // A shared flow comes with the link, a stored flow is fetched
+    if (sharedFlow) {
+      showFlow(sharedFlow);
+    } else if (flowId) {
+      fetchFlowData(flowId);
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [flowId, sharedFlow]);
+
+  // The preview restarts when the flow changes, so it gets a stable object
+  const flowState = useMemo<FlowState>(
+    () => ({ ...flowSettings, nodes, edges }),
+    [flowSettings, nodes, edges]
+  );
+
+  // Switch between the canvas and the conversation preview
+  const modeSwitch = (
+    <Panel position="top-right" className="flex items-center gap-2 !m-2">
+      <Button
+        onClick={() => setIsPreview(false)}
+        className={`px-4 py-2 rounded-md text-sm ${
+          !isPreview
+            ? "bg-black hover:bg-black text-white"
+            : "bg-gray-200 hover:bg-gray-200 text-gray-700"
+        }`}
+      >
+        Canvas
+      </Button>
+      <Button
+        onClick={() => setIsPreview(true)}
+        className={`px-4 py-2 rounded-md text-sm ${
+          isPreview
+            ? "bg-black hover:bg-black text-white"
+            : "bg-gray-200 hover:bg-gray-200 text-gray-700"
+        }`}
+      >
+        Preview
+      </Button>
+    </Panel>
+  );
+
+  if (loadError) {
+    return (
+      <div className="flex h-screen items-center justify-center p-4 text-sm text-red-700">
+        This flow could not be opened. {loadError}
+      </div>
+    );
+  }
+
+  if (isPreview) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-gray-100 pt-16">
+        {modeSwitch}
+        <ConversationPreview flowState={flowState} />
+      </div>
+    );
+  }
 
   return (
     <div className="h-full w-full">
@@ -46,7 +137,7 @@ const ViewMode: React.FC = () => {
       <ReactFlow
         nodes={nodes} // Nodes to be displayed in the flow
         edges={edges} // Edges connecting the nodes
-        nodeTypes={nodeTypes} // Custom node types for rendering
+        nodeTypes={viewNodeTypes} // Read-only node types for rendering
         nodesDraggable={false} // Disabling node dragging
         nodesConnectable={false} // Disabling node connections
         elementsSelectable={false} // Disabling element selection
@@ -54,6 +145,7 @@ const ViewMode: React.FC = () => {
       >
         {/* Background component to render a grid in the flow */}
         <Background gap={12} size={1} />
+        {modeSwitch}
       </ReactFlow>
     </div>
   );
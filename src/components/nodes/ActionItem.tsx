@@ -0,0 +1,257 @@
+import React from "react";
+import { Handle, Position } from "@xyflow/react";
+import { ArrowDown, ArrowUp, Copy, Megaphone, Trash2 } from "lucide-react";
+import { ActionTypes, ButtonData } from "../../types/CardTypes";
+import { ACTION_TYPE_LABELS, changeActionType } from "../../lib/actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import TemplateField from "./TemplateField";
+
+interface ActionItemProps {
+  action: ButtonData;
+  onChange: (action: ButtonData) => void;
+  isConnectable: boolean;
+  /** Render a target handle on the left of the action as well */
+  showTargetHandle?: boolean;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  /** Move the action one place up (-1) or down (1) */
+  onMove: (offset: -1 | 1) => void;
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+const fieldClassName = "mb-2 text-xs";
+
+/**
+ * Editor for the fields that belong to the selected action type
+ */
+const ActionFields: React.FC<Pick<ActionItemProps, "action" | "onChange">> = ({
+  action,
+  onChange,
+}) => {
+  switch (action.action) {
+    case ActionTypes.OPEN_URL:
+      return (
+        <Input
+          type="url"
+          placeholder="https://example.com"
+          className={fieldClassName}
+          value={action.url}
+          onChange={(e) => onChange({ ...action, url: e.target.value })}
+        />
+      );
+    case ActionTypes.DIAL:
+      return (
+        <Input
+          type="tel"
+          placeholder="+12125551234"
+          className={fieldClassName}
+          value={action.phoneNumber}
+          onChange={(e) => onChange({ ...action, phoneNumber: e.target.value })}
+        />
+      );
+    case ActionTypes.VIEW_LOCATION:
+      return (
+        <>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Latitude"
+              className={fieldClassName}
+              value={action.latitude}
+              onChange={(e) => onChange({ ...action, latitude: e.target.value })}
+            />
+            <Input
+              placeholder="Longitude"
+              className={fieldClassName}
+              value={action.longitude}
+              onChange={(e) => onChange({ ...action, longitude: e.target.value })}
+            />
+          </div>
+          <Input
+            placeholder="Location label"
+            className={fieldClassName}
+            value={action.locationLabel || ""}
+            onChange={(e) =>
+              onChange({ ...action, locationLabel: e.target.value })
+            }
+          />
+        </>
+      );
+    case ActionTypes.SHARE_LOCATION:
+      return (
+        <p className="mb-2 text-xs text-muted-foreground">
+          Asks the user to share their location.
+        </p>
+      );
+    case ActionTypes.CREATE_CALENDAR_EVENT:
+      return (
+        <>
+          <Input
+            placeholder="Event title"
+            className={fieldClassName}
+            value={action.eventTitle}
+            onChange={(e) => onChange({ ...action, eventTitle: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <Input
+              type="datetime-local"
+              aria-label="Start time"
+              className={fieldClassName}
+              value={action.startTime}
+              onChange={(e) => onChange({ ...action, startTime: e.target.value })}
+            />
+            <Input
+              type="datetime-local"
+              aria-label="End time"
+              className={fieldClassName}
+              value={action.endTime}
+              onChange={(e) => onChange({ ...action, endTime: e.target.value })}
+            />
+          </div>
+          <Input
+            placeholder="Event description"
+            className={fieldClassName}
+            value={action.eventDescription || ""}
+            onChange={(e) =>
+              onChange({ ...action, eventDescription: e.target.value })
+            }
+          />
+        </>
+      );
+    case ActionTypes.POSTBACK:
+      return (
+        <Input
+          placeholder="Postback data"
+          className={fieldClassName}
+          value={action.postbackData}
+          onChange={(e) => onChange({ ...action, postbackData: e.target.value })}
+        />
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * ActionItem Component
+ * A single action row of a card: the action type, its title, the fields of
+ * the selected type and the source handle the action branches from.
+ */
+const ActionItem: React.FC<ActionItemProps> = ({
+  action,
+  onChange,
+  isConnectable,
+  showTargetHandle = false,
+  onDelete,
+  onDuplicate,
+  onMove,
+  isFirst,
+  isLast,
+}) => (
+  <div className="relative p-4 border-b">
+    <div className="flex items-center justify-between mb-1">
+      <div className="flex items-center gap-2">
+        <Megaphone className="w-5 h-5 text-muted-foreground" />
+        <span className="font-medium text-sm">Action</span>
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="nodrag h-6 w-6 p-0 text-muted-foreground"
+            aria-label="Action menu"
+          >
+            <span className="text-lg">⋯</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem disabled={isFirst} onSelect={() => onMove(-1)}>
+            <ArrowUp />
+            Move up
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={isLast} onSelect={() => onMove(1)}>
+            <ArrowDown />
+            Move down
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={onDuplicate}>
+            <Copy />
+            Duplicate action
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={onDelete}>
+            <Trash2 />
+            Delete action
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+    <div>
+      {/* Action type */}
+      <Select
+        value={action.action}
+        onValueChange={(value: string) =>
+          onChange(changeActionType(action, value as ActionTypes))
+        }
+      >
+        <SelectTrigger className="w-full px-2 py-1 border !border-gray-300 rounded-md mb-2 flex justify-between items-center">
+          <span className="text-sm font-normal">
+            {ACTION_TYPE_LABELS[action.action] || "Select action"}
+          </span>
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(ActionTypes).map((type) => (
+            <SelectItem key={type} value={type} className="text-xs py-2">
+              {ACTION_TYPE_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Editable title */}
+      <p className="text-sm font-medium mb-1">Title</p>
+      <TemplateField
+        placeholder="Add Title"
+        className="mb-2"
+        value={action.title || ""}
+        onChange={(title) => onChange({ ...action, title })}
+      />
+
+      <ActionFields action={action} onChange={onChange} />
+    </div>
+
+    {/* Handles for the action */}
+    {showTargetHandle && (
+      <Handle
+        id={`action-${action.id}-target`}
+        type="target"
+        position={Position.Left}
+        className="w-4 h-4 bg-green-500 absolute top-1/2 -left-2 transform -translate-y-1/2"
+        isConnectable={isConnectable}
+      />
+    )}
+    <Handle
+      id={`action-${action.id}`}
+      type="source"
+      position={Position.Right}
+      className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+      isConnectable={isConnectable}
+    />
+  </div>
+);
+
+export default ActionItem;
@@ -0,0 +1,51 @@
+import React from "react";
+import { Handle, Position } from "@xyflow/react";
+import { Megaphone } from "lucide-react";
+import { ButtonData } from "../../types/CardTypes";
+import { describeAction } from "../../lib/actions";
+
+interface ActionViewProps {
+  action: ButtonData;
+  /** Render a target handle on the left of the action as well */
+  showTargetHandle?: boolean;
+}
+
+/**
+ * ActionView Component
+ * Read-only action row of a card with the handles its edges attach to.
+ */
+const ActionView: React.FC<ActionViewProps> = ({
+  action,
+  showTargetHandle = false,
+}) => (
+  <div className="relative w-full px-4 py-3 border-b">
+    <div className="flex items-center gap-2">
+      <Megaphone className="w-4 h-4 shrink-0 text-muted-foreground" />
+      <span className="font-medium text-sm truncate">
+        {action.title || action.label}
+      </span>
+    </div>
+    <p className="text-xs text-muted-foreground truncate">
+      {describeAction(action)}
+    </p>
+
+    {showTargetHandle && (
+      <Handle
+        id={`action-${action.id}-target`}
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-2 h-2 bg-green-500 absolute top-1/2 -left-2 transform -translate-y-1/2"
+      />
+    )}
+    <Handle
+      id={`action-${action.id}`}
+      type="source"
+      position={Position.Right}
+      isConnectable={false}
+      className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+    />
+  </div>
+);
+
+export default ActionView;
@@ -1,10 +1,11 @@
-import React, { useState } from "react";
+import React from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import {
   CarouselCardData,
   RichCardData,
   ButtonData,
 } from "../../types/CardTypes";
+import { NodeTypes } from "../../types/FlowTypes";
 
 // Import shadcn components
 import {
@@ -15,42 +16,68 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Carousel, CarouselContent, CarouselItem } from "../ui/carousel";
-import { AppWindowMac, Plus, Upload, Megaphone } from "lucide-react";
-import { Textarea } from "../ui/textarea";
+import { DropdownMenuItem } from "../ui/dropdown-menu";
+import {
+  AppWindowMac,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  Unlink,
+  Upload,
+} from "lucide-react";
 import { Input } from "../ui/input";
-import { CustomNode } from "../../types/FlowTypes";
-import { Select } from "@/components/ui/select";
-import { SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select";
+import ActionItem from "./ActionItem";
+import NodeMenu from "./NodeMenu";
+import NodeNote from "./NodeNote";
+import TemplateField from "./TemplateField";
+import {
+  actionHandleIds,
+  createAction,
+  duplicateAction,
+  moveItem,
+} from "../../lib/actions";
+import { useFlowStore } from "../../hooks/useFlowStore";
+import { useHandleOrder } from "../../hooks/useHandleOrder";
 
 /**
  * CarouselCard is a React functional component that represents a carousel of cards.
  * Each card contains editable content such as a title, description, and actions (buttons).
  * The component supports adding new cards, editing card content, and managing actions within each card.
- * It also integrates with localStorage to persist changes to the flow state of a chatbot.
+ * Changes are reported to the flow store, which owns the node data and persists it.
 
  * @component
  * @param {NodeProps} props - The properties passed to the component.
- * @param {CarouselCardData} props.data - The data object containing the initial state of the carousel and its cards.
+ * @param {CarouselCardData} props.data - The data object containing the carousel and its cards.
  * @param {string} props.id - The unique identifier for the node.
  * @param {boolean} props.isConnectable - Determines whether the node is connectable in the flow editor.
 
  * @returns {JSX.Element} A carousel of cards with editable content and actions.
 
  * @function addCard
- * Adds a new card to the carousel. The new card is initialized with default values
- * and is added to the local state, the cardData object, and the localStorage flow state.
+ * Adds a new card to the end of the carousel, initialized with default values.
+ * The edge continuing after the carousel moves to the new last card.
 
- * @function autoSave
- * Automatically saves the updated cards to the localStorage flow state. This function
- * ensures that changes to the cards are persisted.
+ * @function updateCards
+ * Reports the updated list of cards to the flow store.
 
  * @function onchangeContent
- * Updates the content of a specific card or action within a card. This function handles
- * changes to the title, description, and action titles, and triggers an autosave.
+ * Updates the content of a specific card. This function handles
+ * changes to the title, description and image.
 
  * @function addAction
- * Adds a new action (button) to a specific card. The new action is initialized with default
- * values and is added to the local state, the cardData object, and the localStorage flow state.
+ * Adds a new action (button) to a specific card. The new action is initialized with default values.
+
+ * @function updateAction
+ * Replaces an action of a specific card after it was edited, e.g. when its type,
+ * title or type-specific fields change.
+
+ * @function deleteCard
+ * Removes a card from the carousel after the user confirms. Edges of its handles
+ * are removed, the edge continuing after the carousel moves to the new last card.
+
+ * @function deleteAction
+ * Removes an action from a specific card together with the edges of its handles.
 
  * @example
  * <CarouselCard
@@ -59,131 +86,68 @@ import { SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select
  *   isConnectable={true}
  * />
  */
-const CarouselCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
+const CarouselCard: React.FC<NodeProps> = ({
+  data,
+  id,
+  isConnectable,
+  draggable,
+}) => {
   const cardData = data as CarouselCardData;
-  const [cards, setCards] = useState<RichCardData[]>(cardData.cards || []);
-
-  // Add new card to carousel
-  const addCard = async () => {
-    try {
-      // Generate a new unique ID for the card
-      const newCardId = `rich-card-${Date.now()}`;
-
-      // Create a new card
-      const newCard: RichCardData = {
-        id: newCardId,
-        title: "New Card",
-        description: "Add description here...",
-        imageUrl: "",
-        buttons: [],
-        speaker: 'bot',
-      };
-
-      // Update the cardData.cards array
-      const updatedCardIds = [...cardData.cards, newCard];
-      cardData.cards = updatedCardIds;
-
-      // Update cards state
-      setCards([...cards, newCard]);
-
-      // Update localStorage
-      const flowStateStr = localStorage.getItem("chatbot-flow-state");
-      if (flowStateStr) {
-        const flowState = JSON.parse(flowStateStr);
-
-        // Update carousel node's cards
-        const updatedNodes = flowState.nodes.map((node: CustomNode) => {
-          if (node.id === id) {
-            return {
-              ...node,
-              data: {
-                ...node.data,
-                cards: updatedCardIds,
-              },
-            };
-          }
-          return node;
-        });
-
-        flowState.nodes = updatedNodes;
+  const cards = cardData.cards || [];
+  const {
+    updateNodeData,
+    removeNodeItems,
+    addCarouselCard,
+    moveCarouselCard,
+    deleteCarouselCard,
+    detachCarouselCard,
+  } = useFlowStore();
+  useHandleOrder(
+    id,
+    cards.flatMap((card) => [
+      `card-${card.id}-target`,
+      ...(card.buttons || []).flatMap((action) => actionHandleIds(action.id)),
+    ])
+  );
 
-        // Save the updated flow state
-        localStorage.setItem("chatbot-flow-state", JSON.stringify(flowState));
-      }
-    } catch (error) {
-      console.error("Error adding new card:", error);
-    }
+  const updateCards = (updatedCards: RichCardData[]) => {
+    updateNodeData(id, { cards: updatedCards });
   };
 
-  // Autosave function
-  const autoSave = (updatedCards: RichCardData[] = cards) => {
-    try {
-      const flowStateStr = localStorage.getItem("chatbot-flow-state");
-      if (flowStateStr) {
-        const flowState = JSON.parse(flowStateStr);
-
-        // Update the specific node
-        const updatedNodes = flowState.nodes.map((node: CustomNode) => {
-          if (node.id === id) {
-            return {
-              ...node,
-              data: {
-                ...node.data,
-                cards: updatedCards,
-              },
-            };
-          }
-          return node;
-        });
+  // Apply changes to a single card
+  const updateCard = (cardId: string, changes: Partial<RichCardData>) => {
+    updateCards(cards.map((c) => (c.id === cardId ? { ...c, ...changes } : c)));
+  };
 
-        // Save updated flow state
-        const updatedFlowState = {
-          ...flowState,
-          nodes: updatedNodes,
-        };
+  // Add new card to carousel
+  const addCard = () => {
+    const newCard: RichCardData = {
+      id: `rich-card-${Date.now()}`,
+      title: "New Card",
+      description: "Add description here...",
+      imageUrl: "",
+      buttons: [],
+    };
+    addCarouselCard(id, newCard);
+  };
 
-        localStorage.setItem(
-          "chatbot-flow-state",
-          JSON.stringify(updatedFlowState)
-        );
-      }
-    } catch (error) {
-      console.error("Error autosaving:", error);
+  const deleteCard = (card: RichCardData, index: number) => {
+    if (window.confirm(`Delete card ${index + 1} and its actions?`)) {
+      deleteCarouselCard(id, card.id);
     }
   };
 
   const onchangeContent = (
-    event: any,
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
     card: RichCardData,
-    type: string,
-    actionID?: string
+    type: "title" | "description" | "imageUrl"
   ) => {
     if (type === "imageUrl") {
-      handleImageUpload(event, card);
+      handleImageUpload(event as React.ChangeEvent<HTMLInputElement>, card);
       return;
     }
 
-    const updatedCards = cards.map((c) => {
-      if (c.id === card.id && type === "title") {
-        return { ...c, title: event.target.value };
-      } else if (c.id === card.id && type === "description") {
-        return { ...c, description: event.target.value };
-      } else if (c.id === card.id && type === "actionTitle" && actionID) {
-        return {
-          ...c,
-          buttons: c.buttons.map((button) =>
-            button.id === actionID
-              ? { ...button, title: event.target.value }
-              : button
-          ),
-        };
-      }
-      return c;
-    });
-
-    cardData.cards = updatedCards;
-    setCards(updatedCards);
-    autoSave(updatedCards);
+    updateCard(card.id, { [type]: event.target.value });
   };
 
   // Separate function to handle image upload
@@ -194,53 +158,39 @@ const CarouselCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
     const file = event.target.files?.[0];
     if (file) {
       const reader = new FileReader();
-
       reader.onloadend = () => {
-        const imageDataUrl = reader.result as string;
-
-        // Create updated cards array with the new image URL
-        const updatedCards = cards.map((c) => {
-          if (c.id === card.id) {
-            return { ...c, imageUrl: imageDataUrl };
-          }
-          return c;
-        });
-
-        // Update both state and cardData
-        setCards(updatedCards);
-        cardData.cards = updatedCards;
-
-        // Save to localStorage
-        autoSave(updatedCards);
+        updateCard(card.id, { imageUrl: reader.result as string });
       };
-
       reader.readAsDataURL(file);
     }
   };
 
   const addAction = (card: RichCardData) => {
-    const newAction: ButtonData = {
-      id: `action-${Date.now()}`,
-      label: `Choose a type of CTA.... `,
-      action: "DEFAULT_ACTION",
-      type: "action",
-      title: "Action Title",
-    };
+    const newAction = createAction(`Choose a type of CTA.... `, "Action Title");
+    updateCard(card.id, { buttons: [...(card.buttons || []), newAction] });
+  };
 
-    // Update the specific card's buttons
-    const updatedCards = cards.map((c) => {
-      if (c.id === card.id) {
-        return {
-          ...c,
-          buttons: [...(c.buttons || []), newAction],
-        };
-      }
-      return c;
+  // Replace an edited action of a specific card
+  const updateAction = (card: RichCardData, updatedAction: ButtonData) => {
+    updateCard(card.id, {
+      buttons: card.buttons.map((b) =>
+        b.id === updatedAction.id ? updatedAction : b
+      ),
     });
+  };
 
-    setCards(updatedCards as RichCardData[]);
-    cardData.cards = updatedCards as RichCardData[];
-    autoSave(updatedCards as RichCardData[]);
+  const deleteAction = (card: RichCardData, actionId: string) => {
+    removeNodeItems(
+      id,
+      {
+        cards: cards.map((c) =>
+          c.id === card.id
+            ? { ...c, buttons: c.buttons.filter((b) => b.id !== actionId) }
+            : c
+        ),
+      },
+      actionHandleIds(actionId)
+    );
   };
 
   return (
@@ -253,6 +203,10 @@ const CarouselCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
         className="w-4 h-4 bg-blue-500"
       />
 
+      {cardData.note !== undefined && (
+        <NodeNote nodeId={id} note={cardData.note} />
+      )}
+
       <Carousel className="w-full overflow-visible">
         <CarouselContent className="overflow-visible !transform-none">
           {cards.length > 0 &&
@@ -292,14 +246,56 @@ const CarouselCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
                         <h3 className="text-lg ml-2 font-semibold">Bot says</h3>
                       </div>
                       <div className="flex space-x-2">
-                        <button className="text-gray-500 p-0">
-                          <span>⋯</span>
-                        </button>
+                        <NodeMenu
+                          nodeId={id}
+                          nodeLabel="carousel"
+                          draggable={draggable}
+                          hasNote={cardData.note !== undefined}
+                          convertTo={{
+                            type: NodeTypes.RICH_CARD,
+                            label: "Convert to rich card",
+                            // Only a single card fits in a rich card
+                            disabled: cards.length > 1,
+                          }}
+                          className="text-gray-500 p-0"
+                        >
+                          <DropdownMenuItem
+                            disabled={cards.length === 1}
+                            onSelect={() => detachCarouselCard(id, card.id)}
+                          >
+                            <Unlink />
+                            Detach card {index + 1} as rich card
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            variant="destructive"
+                            disabled={cards.length === 1}
+                            onSelect={() => deleteCard(card, index)}
+                          >
+                            <Trash2 />
+                            Delete card {index + 1}
+                          </DropdownMenuItem>
+                        </NodeMenu>
                       </div>
                     </div>
                     <div className="flex items-center bg-white p-1 px-2 rounded text-sm">
+                      <button
+                        className="nodrag mr-1 text-gray-500 disabled:opacity-30"
+                        aria-label="Move card left"
+                        disabled={index === 0}
+                        onClick={() => moveCarouselCard(id, card.id, -1)}
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </button>
                       <span className="mr-1">{index + 1}</span>/
                       <span>{cards.length}</span>
+                      <button
+                        className="nodrag ml-1 text-gray-500 disabled:opacity-30"
+                        aria-label="Move card right"
+                        disabled={index === cards.length - 1}
+                        onClick={() => moveCarouselCard(id, card.id, 1)}
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </button>
                     </div>
                     <div className="relative h-40 bg-gray-100 flex items-center justify-center">
                       {card.imageUrl ? (
@@ -330,22 +326,23 @@ const CarouselCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
                   <CardContent className="p-4">
                     <div className="mb-4">
                       <p className="text-sm font-medium mb-1">Title</p>
-                      <Input
+                      <TemplateField
                         placeholder="Title your card here..."
                         className="w-full"
                         value={card.title}
-                        onChange={(e) => onchangeContent(e, card, "title")}
+                        onChange={(value) => updateCard(card.id, { title: value })}
                       />
                     </div>
 
                     <div>
                       <p className="text-sm font-medium mb-1">Description</p>
-                      <Textarea
+                      <TemplateField
+                        multiline
                         placeholder="Describe your card here..."
                         className="w-full min-h-24 flex-1 px-2 py-1 text-xs border border-gray-300 rounded-md focus:border-gray-400"
                         value={card.description}
-                        onChange={(e) =>
-                          onchangeContent(e, card, "description")
+                        onChange={(value) =>
+                          updateCard(card.id, { description: value })
                         }
                       />
                     </div>
@@ -354,81 +351,29 @@ const CarouselCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
                   <CardFooter className="flex flex-col bg-transparent">
                     {card.buttons && card.buttons.length > 0 && (
                       <div className="w-full px-0">
-                        {card.buttons.map((action) => (
-                          <div key={action.id} className="relative p-4 border-b">
-                            <div className="flex items-center justify-between mb-1">
-                              <div className="flex items-center gap-2">
-                                <Megaphone className="w-5 h-5 text-muted-foreground" />
-                                <span className="font-medium text-sm">Action</span>
-                              </div>
-                              <Button variant="ghost" size="icon" className="h-6 w-6 p-0 text-muted-foreground">
-                                <span className="text-lg">⋯</span>
-                              </Button>
-                            </div>
-                            <div>
-                              {/* Action label */}
-                              <Select
-                                value={action.label}
-                                onValueChange={(value: string) => {
-                                  const updatedCards = cards.map((c) =>
-                                    c.id === card.id
-                                      ? {
-                                          ...c,
-                                          buttons: c.buttons.map((b) =>
-                                            b.id === action.id ? { ...b, label: value } : b
-                                          ),
-                                        }
-                                      : c
-                                  );
-                                  setCards(updatedCards);
-                                  cardData.cards = updatedCards;
-                                  autoSave(updatedCards);
-                                }}
-                              >
-                                <SelectTrigger className="w-full px-2 py-1 border !border-gray-300 rounded-md mb-2 flex justify-between items-center">
-                                  <span className="text-sm font-normal">{action.label || "Select action"}</span>
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="Chip" className="text-xs py-2">Chip</SelectItem>
-                                  <SelectItem value="Browse" className="text-xs py-2">Browse</SelectItem>
-                                  <SelectItem value="Chip2" className="text-xs py-2">Chip2</SelectItem>
-                                </SelectContent>
-                              </Select>
-
-                              {/* Editable title */}
-                              <p className="text-sm font-medium mb-1">Title</p>
-                              <div className="flex w-full mb-2">
-                                <Input
-                                  type="text"
-                                  value={action.title || ""}
-                                  onChange={(e) =>
-                                    onchangeContent(
-                                      e,
-                                      card,
-                                      "actionTitle",
-                                      action.id
-                                    )
-                                  }
-                                />
-                              </div>
-                            </div>
-
-                            {/* Handles for each action */}
-                            <Handle
-                              id={`action-${action.id}-target`}
-                              type="target"
-                              position={Position.Left}
-                              className="w-4 h-4 bg-green-500 absolute top-1/2 -left-2 transform -translate-y-1/2"
-                              isConnectable={isConnectable}
-                            />
-                            <Handle
-                              id={`action-${action.id}`}
-                              type="source"
-                              position={Position.Right}
-                              className="w-4 h-4 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
-                              isConnectable={isConnectable}
-                            />
-                          </div>
+                        {card.buttons.map((action, actionIndex) => (
+                          <ActionItem
+                            key={action.id}
+                            action={action}
+                            onChange={(updatedAction) =>
+                              updateAction(card, updatedAction)
+                            }
+                            isConnectable={isConnectable}
+                            showTargetHandle
+                            onDelete={() => deleteAction(card, action.id)}
+                            onDuplicate={() =>
+                              updateCard(card.id, {
+                                buttons: duplicateAction(card.buttons, action.id),
+                              })
+                            }
+                            onMove={(offset) =>
+                              updateCard(card.id, {
+                                buttons: moveItem(card.buttons, actionIndex, offset),
+                              })
+                            }
+                            isFirst={actionIndex === 0}
+                            isLast={actionIndex === card.buttons.length - 1}
+                          />
                         ))}
                       </div>
                     )}
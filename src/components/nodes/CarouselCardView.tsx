@@ -0,0 +1,82 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { AppWindowMac } from "lucide-react";
+import { CarouselCardData } from "../../types/CardTypes";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import ActionView from "./ActionView";
+
+/**
+ * CarouselCardView Component
+ * Read-only carousel for sharing a flow. The cards are laid out side by side
+ * with the same handles as in the editor, so every edge stays attached.
+ */
+const CarouselCardView: React.FC<NodeProps> = ({ data }) => {
+  const cards = (data as CarouselCardData).cards || [];
+
+  return (
+    <div className="flex gap-4">
+      <Handle
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-4 h-4 bg-blue-500"
+      />
+
+      {cards.map((card, index) => (
+        <Card key={card.id} className="relative w-84 shadow-sm p-0 gap-0">
+          <Handle
+            id={`card-${card.id}-target`}
+            type="target"
+            position={Position.Top}
+            isConnectable={false}
+            className="w-4 h-4 bg-blue-500 absolute top-1/2 -left-2 transform -translate-y-1/2"
+          />
+          {index === cards.length - 1 && (
+            <Handle
+              id={`card-${card.id}-source`}
+              type="source"
+              position={Position.Right}
+              isConnectable={false}
+              className="w-4 h-4 bg-blue-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+            />
+          )}
+
+          <CardHeader className="p-4 bg-white rounded-t-lg">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center">
+                <AppWindowMac />
+                <h3 className="text-lg ml-2 font-semibold">Bot says</h3>
+              </div>
+              <span className="text-sm text-gray-500">
+                {index + 1}/{cards.length}
+              </span>
+            </div>
+          </CardHeader>
+
+          <CardContent className="pb-4 space-y-2">
+            {card.imageUrl && (
+              <img
+                src={card.imageUrl}
+                alt=""
+                className="w-full h-40 object-cover rounded-md"
+              />
+            )}
+            <h4 className="text-md font-semibold break-words">{card.title}</h4>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+              {card.description}
+            </p>
+          </CardContent>
+          {card.buttons && card.buttons.length > 0 && (
+            <div className="border-t">
+              {card.buttons.map((action) => (
+                <ActionView key={action.id} action={action} showTargetHandle />
+              ))}
+            </div>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default CarouselCardView;
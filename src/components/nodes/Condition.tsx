@@ -0,0 +1,233 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { Plus, Split, Trash2 } from "lucide-react";
+import {
+  Condition as ConditionRule,
+  ConditionData,
+  ConditionOperators,
+} from "../../types/CardTypes";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import { CONDITION_OPERATOR_LABELS } from "../../lib/conditions";
+import {
+  CONDITION_ELSE_HANDLE_ID,
+  conditionHandleId,
+} from "../../lib/simulator";
+import { isValidVariableName } from "../../lib/templating";
+import { useFlowStore } from "../../hooks/useFlowStore";
+
+const OPERATOR_PLACEHOLDERS: Record<ConditionOperators, string> = {
+  [ConditionOperators.EQUALS]: "e.g. returning",
+  [ConditionOperators.CONTAINS]: "e.g. @gmail.com",
+  [ConditionOperators.GREATER_THAN]: "e.g. 100",
+  [ConditionOperators.IS_SET]: "",
+  [ConditionOperators.REGEX]: "e.g. ^\\d{6}$",
+};
+
+/**
+ * Condition Component
+ * Routes the conversation on the values of flow variables without waiting for
+ * the user. Conditions are tried from top to bottom, the first one that holds
+ * decides which source handle the conversation continues from, and the else
+ * handle is used when none does.
+ */
+const Condition: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
+  const conditionData = data as ConditionData;
+  const conditions = conditionData.conditions || [];
+  const { updateNodeData, removeNodeItems, variables } = useFlowStore();
+  const variableNames = [
+    ...new Set(
+      variables.map((variable) => variable.name).filter(isValidVariableName)
+    ),
+  ];
+
+  const addCondition = () => {
+    const newCondition: ConditionRule = {
+      id: `condition-${Date.now()}`,
+      variable: variableNames[0] || "",
+      operator: ConditionOperators.EQUALS,
+      value: "",
+    };
+    updateNodeData(id, { conditions: [...conditions, newCondition] });
+  };
+
+  // Replace an edited condition
+  const updateCondition = (updatedCondition: ConditionRule) => {
+    updateNodeData(id, {
+      conditions: conditions.map((condition) =>
+        condition.id === updatedCondition.id ? updatedCondition : condition
+      ),
+    });
+  };
+
+  // Removing a condition also removes the connection that leaves from it
+  const removeCondition = (conditionId: string) => {
+    removeNodeItems(
+      id,
+      { conditions: conditions.filter((condition) => condition.id !== conditionId) },
+      [conditionHandleId(conditionId)]
+    );
+  };
+
+  return (
+    <div className="w-84">
+      {/* Left target handle */}
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <Split />
+            <h3 className="text-lg ml-2 font-semibold">Condition</h3>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <p className="text-xs text-muted-foreground">
+            Checks variables without waiting for the user. Conditions are tried
+            from top to bottom, else is used when none of them holds.
+          </p>
+        </CardContent>
+        <hr />
+        <CardFooter className="flex flex-col bg-transparent">
+          <div className="w-full px-0">
+            {conditions.map((condition, index) => (
+              <div key={condition.id} className="relative p-4 border-b">
+                <div className="flex items-center justify-between mb-1">
+                  <p className="text-sm font-medium">Condition {index + 1}</p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-6"
+                    title="Remove condition"
+                    onClick={() => removeCondition(condition.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-2 mb-2">
+                  <Select
+                    value={condition.variable || undefined}
+                    onValueChange={(variable: string) =>
+                      updateCondition({ ...condition, variable })
+                    }
+                  >
+                    <SelectTrigger className="flex-1 min-w-0 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+                      <span className="text-sm font-normal truncate">
+                        {condition.variable
+                          ? `{{${condition.variable}}}`
+                          : "Variable"}
+                      </span>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {variableNames.length === 0 && (
+                        <p className="px-2 py-1.5 text-xs text-gray-500">
+                          No variables yet, add them under Variables
+                        </p>
+                      )}
+                      {variableNames.map((name) => (
+                        <SelectItem key={name} value={name} className="text-xs py-2">
+                          {`{{${name}}}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(value: string) =>
+                      updateCondition({
+                        ...condition,
+                        operator: value as ConditionOperators,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-32 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+                      <span className="text-sm font-normal">
+                        {CONDITION_OPERATOR_LABELS[condition.operator]}
+                      </span>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(ConditionOperators).map((operator) => (
+                        <SelectItem
+                          key={operator}
+                          value={operator}
+                          className="text-xs py-2"
+                        >
+                          {CONDITION_OPERATOR_LABELS[operator]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {condition.operator !== ConditionOperators.IS_SET && (
+                  <Input
+                    type="text"
+                    placeholder={OPERATOR_PLACEHOLDERS[condition.operator]}
+                    value={condition.value}
+                    onChange={(e) =>
+                      updateCondition({ ...condition, value: e.target.value })
+                    }
+                  />
+                )}
+
+                {/* Source handle for each condition */}
+                <Handle
+                  id={conditionHandleId(condition.id)}
+                  type="source"
+                  position={Position.Right}
+                  className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+                  isConnectable={isConnectable}
+                />
+              </div>
+            ))}
+
+            <div className="relative p-4 border-b">
+              <p className="text-sm font-medium">Else</p>
+              <p className="text-xs text-muted-foreground">
+                When no condition holds
+              </p>
+
+              {/* Source handle used when no condition holds */}
+              <Handle
+                id={CONDITION_ELSE_HANDLE_ID}
+                type="source"
+                position={Position.Right}
+                className="w-2 h-2 bg-gray-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+                isConnectable={isConnectable}
+              />
+            </div>
+          </div>
+
+          <Button
+            variant="ghost"
+            onClick={addCondition}
+            className="w-full justify-center rounded-b-lg border-t bg-muted text-muted-foreground text-sm font-normal gap-2 h-12"
+          >
+            <Plus className="h-5 w-5" />
+            Add condition
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default Condition;
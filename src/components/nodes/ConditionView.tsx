@@ -0,0 +1,72 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { Split } from "lucide-react";
+import { ConditionData, ConditionOperators } from "../../types/CardTypes";
+import { Card, CardHeader } from "@/components/ui/card";
+import { CONDITION_OPERATOR_LABELS } from "../../lib/conditions";
+import {
+  CONDITION_ELSE_HANDLE_ID,
+  conditionHandleId,
+} from "../../lib/simulator";
+
+/**
+ * ConditionView Component
+ * Read-only condition: each rule in the order it is tried, and the else
+ * branch, each with the handle it continues from.
+ */
+const ConditionView: React.FC<NodeProps> = ({ data, id }) => {
+  const conditions = (data as ConditionData).conditions || [];
+
+  return (
+    <div className="w-84">
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0 gap-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <Split />
+            <h3 className="text-lg ml-2 font-semibold">Condition</h3>
+          </div>
+        </CardHeader>
+
+        <div className="border-t">
+          {conditions.map((condition) => (
+            <div key={condition.id} className="relative px-4 py-3 border-b">
+              <p className="text-sm break-words">
+                <span className="font-medium">{`{{${condition.variable}}}`}</span>{" "}
+                {CONDITION_OPERATOR_LABELS[condition.operator].toLowerCase()}
+                {condition.operator !== ConditionOperators.IS_SET &&
+                  ` ${condition.value}`}
+              </p>
+              <Handle
+                id={conditionHandleId(condition.id)}
+                type="source"
+                position={Position.Right}
+                isConnectable={false}
+                className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+              />
+            </div>
+          ))}
+          <div className="relative px-4 py-3">
+            <p className="text-sm font-medium">Else</p>
+            <Handle
+              id={CONDITION_ELSE_HANDLE_ID}
+              type="source"
+              position={Position.Right}
+              isConnectable={false}
+              className="w-2 h-2 bg-gray-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+            />
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ConditionView;
@@ -0,0 +1,95 @@
+import React from "react";
+import { Copy, Lock, LockOpen, Repeat, StickyNote, Trash2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { NodeTypes } from "../../types/FlowTypes";
+import { useFlowStore } from "../../hooks/useFlowStore";
+
+interface NodeMenuProps {
+  nodeId: string;
+  /** Name of the node in menu entries, e.g. "card" */
+  nodeLabel: string;
+  /** Whether the node can be dragged, false once its position is locked */
+  draggable: boolean;
+  /** Whether the node has a note */
+  hasNote: boolean;
+  /** The type the node can be converted to, disabled when it would lose content */
+  convertTo?: { type: NodeTypes; label: string; disabled?: boolean };
+  /** Classes of the ⋯ trigger button */
+  className?: string;
+  /** Entries shown first, for parts of the node such as a carousel card */
+  children?: React.ReactNode;
+}
+
+/**
+ * NodeMenu Component
+ * The ⋯ menu in a node header with actions for the whole node.
+ * A lock icon next to it shows that the position of the node is locked.
+ */
+const NodeMenu: React.FC<NodeMenuProps> = ({
+  nodeId,
+  nodeLabel,
+  draggable,
+  hasNote,
+  convertTo,
+  className = "text-gray-500",
+  children,
+}) => {
+  const { duplicateNode, deleteNode, convertNode, setNodeLocked, updateNodeData } =
+    useFlowStore();
+
+  return (
+    <>
+      {!draggable && (
+        <Lock className="h-4 w-4 text-gray-500" aria-label="Position locked" />
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className={`nodrag ${className}`} aria-label="Node menu">
+            <span>⋯</span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {children}
+          <DropdownMenuItem onSelect={() => duplicateNode(nodeId)}>
+            <Copy />
+            Duplicate {nodeLabel}
+          </DropdownMenuItem>
+          {convertTo && (
+            <DropdownMenuItem
+              disabled={convertTo.disabled}
+              onSelect={() => convertNode(nodeId, convertTo.type)}
+            >
+              <Repeat />
+              {convertTo.label}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => setNodeLocked(nodeId, draggable)}>
+            {draggable ? <Lock /> : <LockOpen />}
+            {draggable ? "Lock position" : "Unlock position"}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() =>
+              updateNodeData(nodeId, { note: hasNote ? undefined : "" })
+            }
+          >
+            <StickyNote />
+            {hasNote ? "Remove note" : "Add note"}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={() => deleteNode(nodeId)}>
+            <Trash2 />
+            Delete {nodeLabel}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
+
+export default NodeMenu;
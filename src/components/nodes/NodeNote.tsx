@@ -0,0 +1,33 @@
+import React from "react";
+import { StickyNote } from "lucide-react";
+import { useFlowStore } from "../../hooks/useFlowStore";
+
+interface NodeNoteProps {
+  nodeId: string;
+  note: string;
+}
+
+/**
+ * NodeNote Component
+ * A note on a node for the people editing the flow. It is saved with the
+ * flow but never sent to the user.
+ */
+const NodeNote: React.FC<NodeNoteProps> = ({ nodeId, note }) => {
+  const { updateNodeData } = useFlowStore();
+
+  return (
+    <div className="flex gap-2 mb-2 p-2 rounded-md border border-amber-200 bg-amber-50">
+      <StickyNote className="h-4 w-4 shrink-0 text-amber-600" />
+      <textarea
+        autoFocus={note === ""}
+        value={note}
+        placeholder="Add a note for your team..."
+        aria-label="Note"
+        className="nodrag w-full min-h-12 bg-transparent text-xs text-amber-900 outline-none resize-none"
+        onChange={(e) => updateNodeData(nodeId, { note: e.target.value })}
+      />
+    </div>
+  );
+};
+
+export default NodeNote;
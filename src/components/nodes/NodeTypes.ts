@@ -4,6 +4,16 @@ import { NodeTypes } from '../../types/FlowTypes';
 // Importing custom node components
 import RichCard from './RichCard'; // Component for rendering a rich card node
 import CarouselCard from './CarouselCard'; // Component for rendering a carousel card node
+import TextMessage from './TextMessage'; // Component for rendering a plain text message node
+import UserInput from './UserInput'; // Component for rendering a user input node
+import Condition from './Condition'; // Component for rendering a condition node
+import Webhook from './Webhook'; // Component for rendering an API call node
+import RichCardView from './RichCardView'; // Read-only rendering of a rich card node
+import CarouselCardView from './CarouselCardView'; // Read-only rendering of a carousel card node
+import TextMessageView from './TextMessageView'; // Read-only rendering of a text message node
+import UserInputView from './UserInputView'; // Read-only rendering of a user input node
+import ConditionView from './ConditionView'; // Read-only rendering of a condition node
+import WebhookView from './WebhookView'; // Read-only rendering of an API call node
 
 /**
  * nodeTypes Object
@@ -13,4 +23,23 @@ import CarouselCard from './CarouselCard'; // Component for rendering a carousel
 export const nodeTypes = {
   [NodeTypes.RICH_CARD]: RichCard, // Mapping the RICH_CARD node type to the RichCard component
   [NodeTypes.CAROUSEL_CARD]: CarouselCard, // Mapping the CAROUSEL_CARD node type to the CarouselCard component
-};
\ No newline at end of file
+  [NodeTypes.TEXT_MESSAGE]: TextMessage, // Mapping the TEXT_MESSAGE node type to the TextMessage component
+  [NodeTypes.USER_INPUT]: UserInput, // Mapping the USER_INPUT node type to the UserInput component
+  [NodeTypes.CONDITION]: Condition, // Mapping the CONDITION node type to the Condition component
+  [NodeTypes.WEBHOOK]: Webhook, // Mapping the WEBHOOK node type to the Webhook component
+};
+
+/**
+ * viewNodeTypes Object
+ * The node components of the read-only view mode. Every node is rendered as
+ * static text, without inputs, menus or upload fields, so a flow can be shown
+ * to stakeholders. They do not use the flow store.
+ */
+export const viewNodeTypes = {
+  [NodeTypes.RICH_CARD]: RichCardView, // Static rich card without inputs
+  [NodeTypes.CAROUSEL_CARD]: CarouselCardView, // Static carousel without inputs
+  [NodeTypes.TEXT_MESSAGE]: TextMessageView, // Static text message without inputs
+  [NodeTypes.USER_INPUT]: UserInputView, // Static matchers without inputs
+  [NodeTypes.CONDITION]: ConditionView, // Static conditions without inputs
+  [NodeTypes.WEBHOOK]: WebhookView, // Static API call without inputs
+};
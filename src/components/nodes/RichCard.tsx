@@ -1,7 +1,7 @@
-import React, { useState } from "react";
-import { Handle, Position, NodeProps } from "@xyflow/react";
+import React from "react";
+import { Handle, Position, NodeProps, useReactFlow } from "@xyflow/react";
 import { RichCardData, ButtonData } from "../../types/CardTypes";
-// import { saveFlowState } from '../../lib/localStorage';
+import { CustomNode, NodeTypes } from "../../types/FlowTypes";
 
 // Import shadcn components
 import {
@@ -11,114 +11,83 @@ import {
   CardHeader,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { AppWindowMac, Megaphone, Plus, Upload } from "lucide-react";
-import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select";
+import { AppWindowMac, GalleryHorizontal, Plus, Upload } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "../ui/textarea";
+import {
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+} from "@/components/ui/dropdown-menu";
+import ActionItem from "./ActionItem";
+import NodeMenu from "./NodeMenu";
+import NodeNote from "./NodeNote";
+import TemplateField from "./TemplateField";
+import {
+  actionHandleIds,
+  createAction,
+  duplicateAction,
+  moveItem,
+} from "../../lib/actions";
+import { getNodeLabel } from "../../lib/nodeLabels";
+import { useFlowStore } from "../../hooks/useFlowStore";
+import { useHandleOrder } from "../../hooks/useHandleOrder";
+
+/**
+ * The carousels of the flow a rich card can be merged into.
+ * Rendered only while the submenu is open, so reading the nodes once is enough.
+ */
+const CarouselChoices: React.FC<{ nodeId: string }> = ({ nodeId }) => {
+  const { getNodes } = useReactFlow();
+  const { mergeIntoCarousel } = useFlowStore();
+  const carousels = (getNodes() as CustomNode[]).filter(
+    (node) => node.type === NodeTypes.CAROUSEL_CARD
+  );
+
+  if (carousels.length === 0) {
+    return <DropdownMenuItem disabled>No carousels in this flow</DropdownMenuItem>;
+  }
+  return carousels.map((carousel) => (
+    <DropdownMenuItem
+      key={carousel.id}
+      onSelect={() => mergeIntoCarousel(nodeId, carousel.id)}
+    >
+      <span className="max-w-48 truncate">{getNodeLabel(carousel)}</span>
+    </DropdownMenuItem>
+  ));
+};
 
-const RichCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
-  const cardData = data as RichCardData;
-  const [actions, setActions] = useState<ButtonData[]>(cardData.buttons || []);
-  const [editingActionId, setEditingActionId] = useState<string | null>(null);
-  const [actionTitle, setActionTitle] = useState<string>("");
-  const [card, setCard] = useState<RichCardData>(cardData);
-  const [imageUrl, setImageUrl] = useState<string>(cardData.imageUrl || "");
+const RichCard: React.FC<NodeProps> = ({ data, id, isConnectable, draggable }) => {
+  const card = data as RichCardData;
+  const actions = card.buttons || [];
+  const imageUrl = card.imageUrl || "";
+  const { updateNodeData, removeNodeItems } = useFlowStore();
+  useHandleOrder(id, actions.flatMap((action) => actionHandleIds(action.id)));
 
-  const addAction = (type: string = "button") => {
-    const newAction: ButtonData = {
-      id: `action-${Date.now()}`,
-      label: `Action ${actions.length + 1}`,
-      action: "DEFAULT_ACTION",
-      type: type,
-      title: type === "action" ? "Action Title" : "",
-    };
-    const updatedActions = [...actions, newAction];
-    setActions(updatedActions);
-    if (cardData.buttons) {
-      cardData.buttons = updatedActions;
-    } else {
-      cardData.buttons = updatedActions;
-    }
-    autoSave();
+  const addAction = () => {
+    const newAction = createAction(`Action ${actions.length + 1}`, "Action Title");
+    updateNodeData(id, { buttons: [...actions, newAction] });
   };
-  // Start editing action title
-  const startEditingTitle = (actionId: string, currentTitle: string = "") => {
-    setEditingActionId(actionId);
-    setActionTitle(currentTitle);
-  };
-
-  // Save edited title
-  const saveTitle = (actionId: string) => {
-    if (!editingActionId) return;
 
-    const updatedActions = actions.map((action) => {
-      if (action.id === actionId) {
-        return { ...action, title: actionTitle };
-      }
-      return action;
+  // Replace an edited action
+  const updateAction = (updatedAction: ButtonData) => {
+    updateNodeData(id, {
+      buttons: actions.map((action) =>
+        action.id === updatedAction.id ? updatedAction : action
+      ),
     });
-    setActions(updatedActions);
-    if (cardData.buttons) {
-      cardData.buttons = updatedActions;
-    }
-    setEditingActionId(null);
-    autoSave();
   };
 
-  // Autosave function
-  const autoSave = () => {
-    try {
-      const flowStateStr = localStorage.getItem("chatbot-flow-state");
-      if (flowStateStr) {
-        const flowState = JSON.parse(flowStateStr);
-        // Update the specific node
-        const updatedNodes = flowState.nodes.map((node: any) => {
-          if (node.id === id) {
-            return {
-              ...node,
-              data: {
-                ...node.data,
-                buttons: actions,
-                title: card.title,
-                description: card.description,
-                imageUrl: cardData.imageUrl,
-              },
-            };
-          }
-          return node;
-        });
-
-        // Save updated flow state
-        const updatedFlowState = {
-          ...flowState,
-          nodes: updatedNodes,
-        };
-
-        localStorage.setItem(
-          "chatbot-flow-state",
-          JSON.stringify(updatedFlowState)
-        );
-      }
-    } catch (error) {
-      console.error("Error autosaving:", error);
-    }
+  const deleteAction = (actionId: string) => {
+    removeNodeItems(
+      id,
+      { buttons: actions.filter((action) => action.id !== actionId) },
+      actionHandleIds(actionId)
+    );
   };
 
-  const onChangeContent = (value: string, type: string) => {
-    if (type === "title") {
-      setCard({
-        ...card,
-        title: value,
-      });
-      cardData.title = value;
-    } else if (type === "description") {
-      setCard({
-        ...card,
-        description: value,
-      });
-      cardData.description = value;
-    }
-    autoSave();
+  const onChangeContent = (value: string, type: "title" | "description") => {
+    updateNodeData(id, { [type]: value });
   };
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -126,10 +95,7 @@ const RichCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
     if (file) {
       const reader = new FileReader();
       reader.onloadend = () => {
-        const newImageUrl = reader.result as string;
-        setImageUrl(newImageUrl);
-        cardData.imageUrl = newImageUrl;
-        autoSave();
+        updateNodeData(id, { imageUrl: reader.result as string });
       };
       reader.readAsDataURL(file);
     }
@@ -171,14 +137,33 @@ const RichCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
               <h3 className="text-lg ml-2 font-semibold">Bot says</h3>
             </div>
             <div className="flex space-x-2">
-              <button className="text-gray-500">
-                <span>⋯</span>
-              </button>
+              <NodeMenu
+                nodeId={id}
+                nodeLabel="card"
+                draggable={draggable}
+                hasNote={card.note !== undefined}
+                convertTo={{
+                  type: NodeTypes.CAROUSEL_CARD,
+                  // A carousel needs two cards, the new one starts with this card only
+                  label: "Convert to carousel (add a second card)",
+                }}
+              >
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger className="gap-2">
+                    <GalleryHorizontal className="size-4 text-muted-foreground" />
+                    Merge into carousel
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <CarouselChoices nodeId={id} />
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              </NodeMenu>
             </div>
           </div>
         </CardHeader>
 
         <CardContent className="">
+          {card.note !== undefined && <NodeNote nodeId={id} note={card.note} />}
           <div className="relative h-40 bg-gray-100 flex items-center justify-center overflow-hidden mb-4">
             {imageUrl ? (
               <img
@@ -204,18 +189,18 @@ const RichCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
 
           <div>
             <h4 className="text-md font-medium mb-2">Title</h4>
-            <input
-              type="text"
+            <TemplateField
               value={card.title}
-              onChange={(e) => onChangeContent(e.target.value, "title")}
+              onChange={(value) => onChangeContent(value, "title")}
               className="mb-2 w-full"
             />
 
             <h4 className="text-md font-medium mb-2">Description</h4>
-            <Textarea
+            <TemplateField
+              multiline
               value={card.description}
               className="w-full min-h-24 flex-1 px-2 py-1 text-xs border border-gray-300 rounded-md focus:border-gray-400"
-              onChange={(e) => onChangeContent(e.target.value, "description")}
+              onChange={(value) => onChangeContent(value, "description")}
             />
           </div>
         </CardContent>
@@ -223,78 +208,29 @@ const RichCard: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
         <CardFooter className="flex flex-col bg-transparent">
           {actions.length > 0 && (
             <div className="w-full px-0">
-              {actions.map((action) => (
-                <div key={action.id} className="relative p-4 border-b">
-                  <div className="flex items-center justify-between mb-1">
-                    <div className="flex items-center gap-2">
-                      <Megaphone className="w-5 h-5 text-muted-foreground" />
-                      <span className="font-medium text-sm">Action</span>
-                    </div>
-                    <Button variant="ghost" size="icon" className="h-6 w-6 p-0 text-muted-foreground">
-                      <span className="text-lg">⋯</span>
-                    </Button>
-                  </div>
-                  <div>
-                    {/* Action label */}
-                    <Select
-                      value={action.label}
-                      onValueChange={(value: string) => {
-                        const updatedActions = actions.map((a) =>
-                          a.id === action.id ? { ...a, label: value } : a
-                        );
-                        setActions(updatedActions);
-                        cardData.buttons = updatedActions;
-                        autoSave();
-                      }}
-                    >
-                      <SelectTrigger className="w-full px-2 py-1 border !border-gray-300 rounded-md mb-2 flex justify-between items-center">
-                        <span className="text-sm font-normal">{action.label || "Select action"}</span>
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Chip" className="text-xs py-2">Chip</SelectItem>
-                        <SelectItem value="Browse" className="text-xs py-2">Browse</SelectItem>
-                        <SelectItem value="Chip2" className="text-xs py-2">Chip2</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    {/* Editable title */}
-                    <p className="text-sm font-medium mb-1">Title</p>
-                    {editingActionId === action.id ? (
-                      <div className="flex w-full mb-2">
-                        <Input
-                          type="text"
-                          value={actionTitle}
-                          onChange={(e) => setActionTitle(e.target.value)}
-                          onBlur={() => saveTitle(action.id)}
-                          onKeyDown={(e) => {
-                            if (e.key === "Enter") saveTitle(action.id);
-                          }}
-                        />
-                      </div>
-                    ) : (
-                      <div
-                        className="mb-2 px-2 py-1 font-normal text-xs border border-gray-300 rounded-md cursor-pointer hover:text-blue-500"
-                        onClick={() => startEditingTitle(action.id, action.title || "")}
-                      >
-                        {action.title || "Add Title (Click to Edit)"}
-                      </div>
-                    )}
-                  </div>
-                  {/* Source handle for each action */}
-                  <Handle
-                    id={`action-${action.id}`}
-                    type="source"
-                    position={Position.Right}
-                    className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
-                    isConnectable={isConnectable}
-                  />
-                </div>
+              {actions.map((action, index) => (
+                <ActionItem
+                  key={action.id}
+                  action={action}
+                  onChange={updateAction}
+                  isConnectable={isConnectable}
+                  onDelete={() => deleteAction(action.id)}
+                  onDuplicate={() =>
+                    updateNodeData(id, { buttons: duplicateAction(actions, action.id) })
+                  }
+                  onMove={(offset) =>
+                    updateNodeData(id, { buttons: moveItem(actions, index, offset) })
+                  }
+                  isFirst={index === 0}
+                  isLast={index === actions.length - 1}
+                />
               ))}
             </div>
           )}
 
           <Button
                       variant="ghost"
-                      onClick={() => addAction("action")}
+                      onClick={addAction}
                       className="w-full justify-center rounded-b-lg border-t bg-muted text-muted-foreground text-sm font-normal gap-2 h-12"
                     >
                       <Plus className="h-5 w-5" />
@@ -0,0 +1,74 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { AppWindowMac } from "lucide-react";
+import { RichCardData } from "../../types/CardTypes";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import ActionView from "./ActionView";
+
+/**
+ * RichCardView Component
+ * Read-only rich card for sharing a flow: the image, title, description and
+ * actions as the user would see them, without any inputs.
+ */
+const RichCardView: React.FC<NodeProps> = ({ data, id }) => {
+  const card = data as RichCardData;
+  const actions = card.buttons || [];
+
+  return (
+    <div className="w-84">
+      <Handle
+        id={`node-${id}-top`}
+        type="source"
+        position={Position.Top}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+      <Handle
+        id={`node-${id}-right`}
+        type="source"
+        position={Position.Right}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0 gap-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <AppWindowMac />
+            <h3 className="text-lg ml-2 font-semibold">Bot says</h3>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pb-4 space-y-2">
+          {card.imageUrl && (
+            <img
+              src={card.imageUrl}
+              alt=""
+              className="w-full h-40 object-cover rounded-md"
+            />
+          )}
+          <h4 className="text-md font-semibold break-words">{card.title}</h4>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+            {card.description}
+          </p>
+        </CardContent>
+        {actions.length > 0 && (
+          <div className="border-t">
+            {actions.map((action) => (
+              <ActionView key={action.id} action={action} />
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default RichCardView;
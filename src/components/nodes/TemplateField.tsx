@@ -0,0 +1,140 @@
+import React, { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "../ui/textarea";
+import { useFlowStore } from "../../hooks/useFlowStore";
+import { findOpenPlaceholder } from "../../lib/templating";
+
+interface TemplateFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Render a textarea instead of a single line input */
+  multiline?: boolean;
+  className?: string;
+  placeholder?: string;
+}
+
+type EditableField = HTMLInputElement | HTMLTextAreaElement;
+
+/**
+ * TemplateField Component
+ * Text field for message text that can reference flow variables. Typing
+ * "{{" lists the variables, picking one inserts its placeholder.
+ */
+const TemplateField: React.FC<TemplateFieldProps> = ({
+  value,
+  onChange,
+  multiline = false,
+  className,
+  placeholder,
+}) => {
+  const { variables } = useFlowStore();
+  const fieldRef = useRef<EditableField | null>(null);
+  // The unfinished placeholder before the caret, while one is being typed
+  const [openPlaceholder, setOpenPlaceholder] = useState<{
+    start: number;
+    query: string;
+    caret: number;
+  } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = openPlaceholder
+    ? variables.filter((variable) =>
+        variable.name.toLowerCase().startsWith(openPlaceholder.query.toLowerCase())
+      )
+    : [];
+
+  // Look for a placeholder being typed whenever the text or caret changes
+  const trackCaret = (field: EditableField) => {
+    fieldRef.current = field;
+    const caret = field.selectionStart ?? field.value.length;
+    const open = findOpenPlaceholder(field.value, caret);
+    setOpenPlaceholder(open && { ...open, caret });
+    if (open?.query !== openPlaceholder?.query) setActiveIndex(0);
+  };
+
+  const insertVariable = (name: string) => {
+    if (!openPlaceholder) return;
+    const placeholderText = `{{${name}}}`;
+    // Closing braces typed ahead of time are replaced, not doubled
+    const rest = value.slice(openPlaceholder.caret).replace(/^\s*\}\}/, "");
+    const caret = openPlaceholder.start + placeholderText.length;
+    onChange(value.slice(0, openPlaceholder.start) + placeholderText + rest);
+    setOpenPlaceholder(null);
+
+    // Put the caret after the placeholder once the new value is rendered
+    requestAnimationFrame(() => {
+      fieldRef.current?.focus();
+      fieldRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<EditableField>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (index) => (index + step + suggestions.length) % suggestions.length
+      );
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      insertVariable(suggestions[Math.min(activeIndex, suggestions.length - 1)].name);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setOpenPlaceholder(null);
+    }
+  };
+
+  const fieldProps = {
+    value,
+    placeholder,
+    className,
+    onChange: (event: React.ChangeEvent<EditableField>) => {
+      onChange(event.target.value);
+      trackCaret(event.target);
+    },
+    onSelect: (event: React.SyntheticEvent<EditableField>) =>
+      trackCaret(event.currentTarget),
+    onKeyDown: handleKeyDown,
+    onBlur: () => setOpenPlaceholder(null),
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <Textarea {...fieldProps} /> : <Input {...fieldProps} />}
+      {openPlaceholder && (
+        <ul className="nodrag absolute left-0 top-full z-10 mt-1 w-full max-h-40 overflow-y-auto rounded-md border bg-white shadow-md text-left">
+          {suggestions.length === 0 ? (
+            <li className="px-2 py-1.5 text-xs text-gray-500">
+              {variables.length === 0
+                ? "No variables yet, add them under Variables"
+                : "No variable with this name"}
+            </li>
+          ) : (
+            suggestions.map((variable, index) => (
+              <li key={variable.id}>
+                <button
+                  type="button"
+                  // Keep the focus in the field
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => insertVariable(variable.name)}
+                  className={`w-full px-2 py-1.5 flex items-center justify-between gap-2 text-xs ${
+                    index === activeIndex ? "bg-gray-100" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="font-mono">{`{{${variable.name}}}`}</span>
+                  <span className="text-gray-400 truncate">
+                    {variable.sampleValue}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TemplateField;
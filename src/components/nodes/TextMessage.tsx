@@ -0,0 +1,145 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { MessageSquareText, Plus } from "lucide-react";
+import { ButtonData, TextMessageData } from "../../types/CardTypes";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import ActionItem from "./ActionItem";
+import TemplateField from "./TemplateField";
+import {
+  actionHandleIds,
+  createAction,
+  duplicateAction,
+  moveItem,
+} from "../../lib/actions";
+import { useFlowStore } from "../../hooks/useFlowStore";
+import { useHandleOrder } from "../../hooks/useHandleOrder";
+
+/**
+ * TextMessage Component
+ * A plain text bot message with optional suggestion chips.
+ * Each chip has its own source handle, the right handle continues the
+ * conversation without waiting for the user.
+ */
+const TextMessage: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
+  const messageData = data as TextMessageData;
+  const suggestions = messageData.suggestions || [];
+  const { updateNodeData, removeNodeItems } = useFlowStore();
+  useHandleOrder(
+    id,
+    suggestions.flatMap((suggestion) => actionHandleIds(suggestion.id))
+  );
+
+  const addSuggestion = () => {
+    const newSuggestion = createAction(
+      `Suggestion ${suggestions.length + 1}`,
+      "Suggestion"
+    );
+    updateNodeData(id, { suggestions: [...suggestions, newSuggestion] });
+  };
+
+  // Replace an edited suggestion
+  const updateSuggestion = (updatedSuggestion: ButtonData) => {
+    updateNodeData(id, {
+      suggestions: suggestions.map((suggestion) =>
+        suggestion.id === updatedSuggestion.id ? updatedSuggestion : suggestion
+      ),
+    });
+  };
+
+  const deleteSuggestion = (suggestionId: string) => {
+    removeNodeItems(
+      id,
+      { suggestions: suggestions.filter((suggestion) => suggestion.id !== suggestionId) },
+      actionHandleIds(suggestionId)
+    );
+  };
+
+  return (
+    <div className="w-84">
+      {/* Left target handle */}
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      {/* Right source handle */}
+      <Handle
+        id={`node-${id}-right`}
+        type="source"
+        position={Position.Right}
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <MessageSquareText />
+              <h3 className="text-lg ml-2 font-semibold">Bot says</h3>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <h4 className="text-md font-medium mb-2">Message</h4>
+          <TemplateField
+            multiline
+            value={messageData.text}
+            placeholder="Type your message here..."
+            className="w-full min-h-24 flex-1 px-2 py-1 text-xs border border-gray-300 rounded-md focus:border-gray-400"
+            onChange={(text) => updateNodeData(id, { text })}
+          />
+        </CardContent>
+        <hr />
+        <CardFooter className="flex flex-col bg-transparent">
+          {suggestions.length > 0 && (
+            <div className="w-full px-0">
+              {suggestions.map((suggestion, index) => (
+                <ActionItem
+                  key={suggestion.id}
+                  action={suggestion}
+                  onChange={updateSuggestion}
+                  isConnectable={isConnectable}
+                  onDelete={() => deleteSuggestion(suggestion.id)}
+                  onDuplicate={() =>
+                    updateNodeData(id, {
+                      suggestions: duplicateAction(suggestions, suggestion.id),
+                    })
+                  }
+                  onMove={(offset) =>
+                    updateNodeData(id, {
+                      suggestions: moveItem(suggestions, index, offset),
+                    })
+                  }
+                  isFirst={index === 0}
+                  isLast={index === suggestions.length - 1}
+                />
+              ))}
+            </div>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={addSuggestion}
+            className="w-full justify-center rounded-b-lg border-t bg-muted text-muted-foreground text-sm font-normal gap-2 h-12"
+          >
+            <Plus className="h-5 w-5" />
+            Add suggestion
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default TextMessage;
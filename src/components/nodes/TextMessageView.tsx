@@ -0,0 +1,59 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { MessageSquareText } from "lucide-react";
+import { TextMessageData } from "../../types/CardTypes";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import ActionView from "./ActionView";
+
+/**
+ * TextMessageView Component
+ * Read-only text message: the message and its suggestion chips as the user
+ * would see them, without any inputs.
+ */
+const TextMessageView: React.FC<NodeProps> = ({ data, id }) => {
+  const messageData = data as TextMessageData;
+  const suggestions = messageData.suggestions || [];
+
+  return (
+    <div className="w-84">
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+      <Handle
+        id={`node-${id}-right`}
+        type="source"
+        position={Position.Right}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0 gap-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <MessageSquareText />
+            <h3 className="text-lg ml-2 font-semibold">Bot says</h3>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pb-4">
+          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+            {messageData.text}
+          </p>
+        </CardContent>
+        {suggestions.length > 0 && (
+          <div className="border-t">
+            {suggestions.map((suggestion) => (
+              <ActionView key={suggestion.id} action={suggestion} />
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default TextMessageView;
@@ -0,0 +1,239 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { ArrowDown, ArrowUp, Plus, Trash2, UserRound } from "lucide-react";
+import {
+  InputMatcher,
+  MatcherTypes,
+  UserInputData,
+} from "../../types/CardTypes";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import { moveItem } from "../../lib/actions";
+import { MATCHER_TYPE_LABELS } from "../../lib/matchers";
+import { matcherHandleId } from "../../lib/simulator";
+import { isValidVariableName } from "../../lib/templating";
+import { useFlowStore } from "../../hooks/useFlowStore";
+import { useHandleOrder } from "../../hooks/useHandleOrder";
+
+const MATCHER_PLACEHOLDERS: Record<MatcherTypes, string> = {
+  [MatcherTypes.EXACT]: "e.g. yes",
+  [MatcherTypes.KEYWORD]: "e.g. order, delivery, package",
+  [MatcherTypes.REGEX]: "e.g. ^\\d{6}$",
+  [MatcherTypes.FALLBACK]: "",
+};
+
+// Radix selects can't hold an empty value
+const DONT_SAVE = "none";
+
+/**
+ * UserInput Component
+ * Waits for the user to type a free-text reply and routes it through ordered
+ * matchers. The first matcher that fits decides which source handle the
+ * conversation continues from. The reply can be stored in a flow variable.
+ */
+const UserInput: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
+  const inputData = data as UserInputData;
+  const matchers = inputData.matchers || [];
+  const { updateNodeData, removeNodeItems, variables } = useFlowStore();
+  useHandleOrder(
+    id,
+    matchers.map((matcher) => matcherHandleId(matcher.id))
+  );
+
+  const addMatcher = () => {
+    const newMatcher: InputMatcher = {
+      id: `matcher-${Date.now()}`,
+      type: MatcherTypes.KEYWORD,
+      value: "",
+    };
+    updateNodeData(id, { matchers: [...matchers, newMatcher] });
+  };
+
+  // Replace an edited matcher
+  const updateMatcher = (updatedMatcher: InputMatcher) => {
+    updateNodeData(id, {
+      matchers: matchers.map((matcher) =>
+        matcher.id === updatedMatcher.id ? updatedMatcher : matcher
+      ),
+    });
+  };
+
+  // Removing a matcher also removes the connection that leaves from it
+  const removeMatcher = (matcherId: string) => {
+    removeNodeItems(
+      id,
+      { matchers: matchers.filter((matcher) => matcher.id !== matcherId) },
+      [matcherHandleId(matcherId)]
+    );
+  };
+
+  return (
+    <div className="w-84">
+      {/* Left target handle */}
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <UserRound />
+            <h3 className="text-lg ml-2 font-semibold">User says</h3>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <p className="text-xs text-muted-foreground">
+            Waits for a typed reply. Matchers are tried from top to bottom and
+            the first one that fits decides where the conversation goes.
+          </p>
+          <p className="text-sm font-medium mt-3 mb-1">Save reply as</p>
+          <Select
+            value={inputData.saveAs || DONT_SAVE}
+            onValueChange={(value: string) =>
+              updateNodeData(id, {
+                saveAs: value === DONT_SAVE ? undefined : value,
+              })
+            }
+          >
+            <SelectTrigger className="w-full px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+              <span className="text-sm font-normal">
+                {inputData.saveAs ? `{{${inputData.saveAs}}}` : "Don't save"}
+              </span>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DONT_SAVE} className="text-xs py-2">
+                Don't save
+              </SelectItem>
+              {variables
+                .filter((variable) => isValidVariableName(variable.name))
+                .map((variable) => (
+                  <SelectItem
+                    key={variable.id}
+                    value={variable.name}
+                    className="text-xs py-2"
+                  >
+                    {`{{${variable.name}}}`}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+        <hr />
+        <CardFooter className="flex flex-col bg-transparent">
+          {matchers.length > 0 && (
+            <div className="w-full px-0">
+              {matchers.map((matcher, index) => (
+                <div key={matcher.id} className="relative p-4 border-b">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm font-medium">Matcher {index + 1}</p>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        title="Move up"
+                        disabled={index === 0}
+                        onClick={() =>
+                          updateNodeData(id, { matchers: moveItem(matchers, index, -1) })
+                        }
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        title="Move down"
+                        disabled={index === matchers.length - 1}
+                        onClick={() =>
+                          updateNodeData(id, { matchers: moveItem(matchers, index, 1) })
+                        }
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        title="Remove matcher"
+                        onClick={() => removeMatcher(matcher.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Select
+                    value={matcher.type}
+                    onValueChange={(value: string) =>
+                      updateMatcher({ ...matcher, type: value as MatcherTypes })
+                    }
+                  >
+                    <SelectTrigger className="w-full px-2 py-1 border !border-gray-300 rounded-md mb-2 flex justify-between items-center">
+                      <span className="text-sm font-normal">
+                        {MATCHER_TYPE_LABELS[matcher.type]}
+                      </span>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(MatcherTypes).map((type) => (
+                        <SelectItem key={type} value={type} className="text-xs py-2">
+                          {MATCHER_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {matcher.type !== MatcherTypes.FALLBACK && (
+                    <Input
+                      type="text"
+                      placeholder={MATCHER_PLACEHOLDERS[matcher.type]}
+                      value={matcher.value}
+                      onChange={(e) =>
+                        updateMatcher({ ...matcher, value: e.target.value })
+                      }
+                    />
+                  )}
+
+                  {/* Source handle for each matcher */}
+                  <Handle
+                    id={matcherHandleId(matcher.id)}
+                    type="source"
+                    position={Position.Right}
+                    className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+                    isConnectable={isConnectable}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={addMatcher}
+            className="w-full justify-center rounded-b-lg border-t bg-muted text-muted-foreground text-sm font-normal gap-2 h-12"
+          >
+            <Plus className="h-5 w-5" />
+            Add matcher
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default UserInput;
@@ -0,0 +1,69 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { UserRound } from "lucide-react";
+import { MatcherTypes, UserInputData } from "../../types/CardTypes";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { MATCHER_TYPE_LABELS } from "../../lib/matchers";
+import { matcherHandleId } from "../../lib/simulator";
+
+/**
+ * UserInputView Component
+ * Read-only user input: the variable the reply is saved in and the matchers
+ * in the order they are tried, each with the handle it continues from.
+ */
+const UserInputView: React.FC<NodeProps> = ({ data, id }) => {
+  const inputData = data as UserInputData;
+  const matchers = inputData.matchers || [];
+
+  return (
+    <div className="w-84">
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0 gap-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <UserRound />
+            <h3 className="text-lg ml-2 font-semibold">User says</h3>
+          </div>
+        </CardHeader>
+
+        {inputData.saveAs && (
+          <CardContent className="pb-4">
+            <p className="text-xs text-muted-foreground">
+              Reply saved as {`{{${inputData.saveAs}}}`}
+            </p>
+          </CardContent>
+        )}
+        <div className="border-t">
+          {matchers.map((matcher) => (
+            <div key={matcher.id} className="relative px-4 py-3 border-b">
+              <p className="text-sm font-medium">
+                {MATCHER_TYPE_LABELS[matcher.type]}
+              </p>
+              {matcher.type !== MatcherTypes.FALLBACK && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {matcher.value}
+                </p>
+              )}
+              <Handle
+                id={matcherHandleId(matcher.id)}
+                type="source"
+                position={Position.Right}
+                isConnectable={false}
+                className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default UserInputView;
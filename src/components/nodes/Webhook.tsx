@@ -0,0 +1,271 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { Plus, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import {
+  HttpMethods,
+  ResponseMapping,
+  WebhookData,
+  WebhookHeader,
+} from "../../types/CardTypes";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import TemplateField from "./TemplateField";
+import {
+  WEBHOOK_ERROR_HANDLE_ID,
+  WEBHOOK_SUCCESS_HANDLE_ID,
+} from "../../lib/simulator";
+import { isValidVariableName } from "../../lib/templating";
+import { METHODS_WITH_BODY } from "../../lib/webhooks";
+import { useFlowStore } from "../../hooks/useFlowStore";
+
+/**
+ * Webhook Component
+ * Describes an API call the agent makes without waiting for the user: the
+ * request, which values of the JSON response are stored in variables, and
+ * where the conversation continues when the call succeeds or fails.
+ */
+const Webhook: React.FC<NodeProps> = ({ data, id, isConnectable }) => {
+  const webhookData = data as WebhookData;
+  const headers = webhookData.headers || [];
+  const responseMappings = webhookData.responseMappings || [];
+  const { updateNodeData, variables } = useFlowStore();
+  const variableNames = [
+    ...new Set(
+      variables.map((variable) => variable.name).filter(isValidVariableName)
+    ),
+  ];
+
+  const updateHeaders = (updatedHeaders: WebhookHeader[]) => {
+    updateNodeData(id, { headers: updatedHeaders });
+  };
+
+  const updateMappings = (updatedMappings: ResponseMapping[]) => {
+    updateNodeData(id, { responseMappings: updatedMappings });
+  };
+
+  const addHeader = () => {
+    updateHeaders([...headers, { id: `header-${Date.now()}`, name: "", value: "" }]);
+  };
+
+  const addMapping = () => {
+    updateMappings([
+      ...responseMappings,
+      { id: `mapping-${Date.now()}`, path: "", variable: variableNames[0] || "" },
+    ]);
+  };
+
+  return (
+    <div className="w-96">
+      {/* Left target handle */}
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={isConnectable}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <WebhookIcon />
+            <h3 className="text-lg ml-2 font-semibold">API call</h3>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-2">
+          <p className="text-sm font-medium">Request</p>
+          <div className="flex gap-2">
+            <Select
+              value={webhookData.method}
+              onValueChange={(value: string) =>
+                updateNodeData(id, { method: value as HttpMethods })
+              }
+            >
+              <SelectTrigger className="w-28 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+                <span className="text-sm font-normal">{webhookData.method}</span>
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(HttpMethods).map((method) => (
+                  <SelectItem key={method} value={method} className="text-xs py-2">
+                    {method}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex-1 min-w-0">
+              <TemplateField
+                value={webhookData.url || ""}
+                placeholder="https://api.example.com/orders/{{order_id}}"
+                onChange={(url) => updateNodeData(id, { url })}
+              />
+            </div>
+          </div>
+
+          <p className="text-sm font-medium pt-2">Headers</p>
+          {headers.map((header) => (
+            <div key={header.id} className="flex items-center gap-2">
+              <Input
+                value={header.name}
+                placeholder="Name"
+                className="w-32"
+                onChange={(e) =>
+                  updateHeaders(
+                    headers.map((h) =>
+                      h.id === header.id ? { ...h, name: e.target.value } : h
+                    )
+                  )
+                }
+              />
+              <div className="flex-1 min-w-0">
+                <TemplateField
+                  value={header.value}
+                  placeholder="Value"
+                  onChange={(value) =>
+                    updateHeaders(
+                      headers.map((h) => (h.id === header.id ? { ...h, value } : h))
+                    )
+                  }
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 shrink-0"
+                title="Remove header"
+                onClick={() =>
+                  updateHeaders(headers.filter((h) => h.id !== header.id))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addHeader} className="text-xs">
+            <Plus className="h-4 w-4" />
+            Add header
+          </Button>
+
+          {METHODS_WITH_BODY.includes(webhookData.method) && (
+            <>
+              <p className="text-sm font-medium pt-2">Body</p>
+              <TemplateField
+                multiline
+                value={webhookData.body || ""}
+                placeholder={'{ "phone": "{{phone}}" }'}
+                className="w-full min-h-20 px-2 py-1 text-xs font-mono border border-gray-300 rounded-md focus:border-gray-400"
+                onChange={(body) => updateNodeData(id, { body })}
+              />
+            </>
+          )}
+
+          <p className="text-sm font-medium pt-2">Store from response</p>
+          {responseMappings.map((mapping) => (
+            <div key={mapping.id} className="flex items-center gap-2">
+              <Input
+                value={mapping.path}
+                placeholder="e.g. order.status"
+                className="flex-1 min-w-0 font-mono text-xs"
+                onChange={(e) =>
+                  updateMappings(
+                    responseMappings.map((m) =>
+                      m.id === mapping.id ? { ...m, path: e.target.value } : m
+                    )
+                  )
+                }
+              />
+              <Select
+                value={mapping.variable || undefined}
+                onValueChange={(variable: string) =>
+                  updateMappings(
+                    responseMappings.map((m) =>
+                      m.id === mapping.id ? { ...m, variable } : m
+                    )
+                  )
+                }
+              >
+                <SelectTrigger className="w-36 px-2 py-1 border !border-gray-300 rounded-md flex justify-between items-center">
+                  <span className="text-xs font-normal truncate">
+                    {mapping.variable ? `{{${mapping.variable}}}` : "Variable"}
+                  </span>
+                </SelectTrigger>
+                <SelectContent>
+                  {variableNames.length === 0 && (
+                    <p className="px-2 py-1.5 text-xs text-gray-500">
+                      No variables yet, add them under Variables
+                    </p>
+                  )}
+                  {variableNames.map((name) => (
+                    <SelectItem key={name} value={name} className="text-xs py-2">
+                      {`{{${name}}}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 shrink-0"
+                title="Remove mapping"
+                onClick={() =>
+                  updateMappings(responseMappings.filter((m) => m.id !== mapping.id))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addMapping} className="text-xs">
+            <Plus className="h-4 w-4" />
+            Add mapping
+          </Button>
+        </CardContent>
+        <hr />
+        <CardFooter className="flex flex-col bg-transparent p-0">
+          <div className="relative w-full p-4 border-b">
+            <p className="text-sm font-medium">Success</p>
+            <p className="text-xs text-muted-foreground">2xx response</p>
+
+            {/* Source handle used when the call succeeds */}
+            <Handle
+              id={WEBHOOK_SUCCESS_HANDLE_ID}
+              type="source"
+              position={Position.Right}
+              className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+              isConnectable={isConnectable}
+            />
+          </div>
+          <div className="relative w-full p-4">
+            <p className="text-sm font-medium">Error</p>
+            <p className="text-xs text-muted-foreground">
+              Any other status, or no response
+            </p>
+
+            {/* Source handle used when the call fails */}
+            <Handle
+              id={WEBHOOK_ERROR_HANDLE_ID}
+              type="source"
+              position={Position.Right}
+              className="w-2 h-2 bg-red-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+              isConnectable={isConnectable}
+            />
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default Webhook;
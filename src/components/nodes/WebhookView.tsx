@@ -0,0 +1,77 @@
+import React from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { Webhook as WebhookIcon } from "lucide-react";
+import { WebhookData } from "../../types/CardTypes";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  WEBHOOK_ERROR_HANDLE_ID,
+  WEBHOOK_SUCCESS_HANDLE_ID,
+} from "../../lib/simulator";
+
+/**
+ * WebhookView Component
+ * Read-only API call: the request and the values stored from the response,
+ * with the handles the conversation continues from on success and on error.
+ */
+const WebhookView: React.FC<NodeProps> = ({ data, id }) => {
+  const webhookData = data as WebhookData;
+  const responseMappings = webhookData.responseMappings || [];
+
+  return (
+    <div className="w-96">
+      <Handle
+        id={`node-${id}-left`}
+        type="target"
+        position={Position.Left}
+        isConnectable={false}
+        className="w-2 h-2 bg-blue-500"
+      />
+
+      <Card className="w-full shadow-md border-gray-200 p-0 gap-0">
+        <CardHeader className="p-4 bg-white rounded-t-lg">
+          <div className="flex items-center">
+            <WebhookIcon />
+            <h3 className="text-lg ml-2 font-semibold">API call</h3>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pb-4 space-y-1">
+          <p className="text-sm font-mono break-all">
+            <span className="font-semibold">{webhookData.method}</span>{" "}
+            {webhookData.url}
+          </p>
+          {responseMappings.map((mapping) => (
+            <p key={mapping.id} className="text-xs text-muted-foreground truncate">
+              Stores <span className="font-mono">{mapping.path}</span> in{" "}
+              {`{{${mapping.variable}}}`}
+            </p>
+          ))}
+        </CardContent>
+        <div className="border-t">
+          <div className="relative px-4 py-3 border-b">
+            <p className="text-sm font-medium">Success</p>
+            <Handle
+              id={WEBHOOK_SUCCESS_HANDLE_ID}
+              type="source"
+              position={Position.Right}
+              isConnectable={false}
+              className="w-2 h-2 bg-green-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+            />
+          </div>
+          <div className="relative px-4 py-3">
+            <p className="text-sm font-medium">Error</p>
+            <Handle
+              id={WEBHOOK_ERROR_HANDLE_ID}
+              type="source"
+              position={Position.Right}
+              isConnectable={false}
+              className="w-2 h-2 bg-red-500 absolute top-1/2 -right-2 transform -translate-y-1/2"
+            />
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default WebhookView;
@@ -1,6 +1,6 @@
 // src/hooks/useAutoSave.ts
-import { useEffect, useRef } from 'react';
-import { saveFlowState } from '../lib/localStorage';
+import { useEffect, useRef, useState } from 'react';
+import { getFlowStorage } from '../lib/flowStorage';
 import { FlowState } from '@/types/FlowTypes';
 
 interface UseAutoSaveOptions {
@@ -10,15 +10,48 @@ interface UseAutoSaveOptions {
   enabled?: boolean;
 }
 
+interface UseAutoSaveResult {
+  /** Why the last save failed, null once a save succeeds */
+  saveError: string | null;
+}
+
+// Saves still being written, so a view of the same flow can wait for them
+const runningSaves = new Map<string, Promise<void>>();
+
+const trackSave = (flowId: string, saving: Promise<void>): Promise<void> => {
+  runningSaves.set(flowId, saving);
+  const forget = () => {
+    if (runningSaves.get(flowId) === saving) {
+      runningSaves.delete(flowId);
+    }
+  };
+  saving.then(forget, forget);
+  return saving;
+};
+
+/**
+ * Wait until the last changes of a flow are saved, e.g. those an editor wrote
+ * as it closed, so loading the flow right afterwards shows them
+ */
+export const waitForPendingSave = async (flowId: string): Promise<void> => {
+  await runningSaves.get(flowId)?.catch(() => undefined);
+};
+
 /**
- * Hook for automatically saving flow state to localStorage
+ * Hook for automatically saving the state of a flow to the flow storage
  */
 export const useAutoSave = (
+  flowId: string,
   flowState: FlowState,
   options: UseAutoSaveOptions = {}
-): void => {
+): UseAutoSaveResult => {
   const { debounceTime = 1000, enabled = true } = options;
+  const [saveError, setSaveError] = useState<string | null>(null);
   const timeoutRef = useRef<number | null>(null);
+  // Save still waiting for its debounce, written right away on unmount
+  const pendingRef = useRef<{ flowId: string; save: () => Promise<void> } | null>(
+    null
+  );
 
   useEffect(() => {
     if (!enabled) return;
@@ -29,8 +62,24 @@ export const useAutoSave = (
     }
 
     // Set new timeout for debounced save
+    pendingRef.current = {
+      flowId,
+      save: async () => {
+        const storage = await getFlowStorage();
+        await storage.save(flowId, flowState);
+      },
+    };
     timeoutRef.current = window.setTimeout(() => {
-      saveFlowState(flowState);
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      if (!pending) return;
+      trackSave(pending.flowId, pending.save()).then(
+        () => setSaveError(null),
+        (error: Error) => {
+          console.error('Error saving flow state:', error);
+          setSaveError(error.message);
+        }
+      );
     }, debounceTime);
 
     // Clean up timeout on unmount
@@ -39,5 +88,21 @@ export const useAutoSave = (
         window.clearTimeout(timeoutRef.current);
       }
     };
-  }, [flowState, debounceTime, enabled]);
-};
\ No newline at end of file
+  }, [flowId, flowState, debounceTime, enabled]);
+
+  // Don't lose the last changes when the editor closes, e.g. on switching flows
+  useEffect(
+    () => () => {
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      if (!pending) return;
+
+      trackSave(pending.flowId, pending.save()).catch((error) =>
+        console.error('Error saving flow state:', error)
+      );
+    },
+    []
+  );
+
+  return { saveError };
+};
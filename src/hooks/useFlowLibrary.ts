@@ -0,0 +1,178 @@
+// src/hooks/useFlowLibrary.ts
+import { useCallback, useEffect, useState } from 'react';
+import { getFlowStorage } from '../lib/flowStorage';
+import { loadActiveFlowId, saveActiveFlowId } from '../lib/localStorage';
+import { FlowMeta } from '@/types/FlowTypes';
+import { FlowStorage } from '@/types/StorageTypes';
+
+interface FlowLibraryState {
+  flows: FlowMeta[];
+  activeFlowId: string;
+}
+
+interface UseFlowLibraryResult {
+  /** False until the stored flows have been read */
+  isReady: boolean;
+  flows: FlowMeta[];
+  activeFlowId: string | null;
+  activeFlow: FlowMeta | undefined;
+  /** Last library change that could not be stored */
+  error: string | null;
+  /** Re-read the library, e.g. to pick up updated timestamps */
+  refresh: () => void;
+  /** Create an empty flow and open it */
+  createFlow: (name?: string) => void;
+  /** Change the name or description of a flow */
+  updateFlow: (flowId: string, changes: Partial<Pick<FlowMeta, 'name' | 'description'>>) => void;
+  duplicateFlow: (flowId: string) => void;
+  deleteFlow: (flowId: string) => void;
+  switchFlow: (flowId: string) => void;
+}
+
+const createFlowMeta = (name: string, description = ''): FlowMeta => {
+  const now = new Date().toISOString();
+  return {
+    id: `flow-${Date.now()}`,
+    name,
+    description,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Hook for managing the stored flows and which one is open
+ */
+export const useFlowLibrary = (): UseFlowLibraryResult => {
+  const [library, setLibrary] = useState<FlowLibraryState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const activeFlowId = library?.activeFlowId ?? null;
+
+  /**
+   * Run a change against the storage, then show the stored library with the
+   * given flow open. The library is re-read because autosave stamps update times.
+   */
+  const run = useCallback(
+    async (change: (storage: FlowStorage) => Promise<string | null | void>) => {
+      try {
+        const storage = await getFlowStorage();
+        const requestedFlowId = await change(storage);
+
+        let flows = await storage.list();
+        if (flows.length === 0) {
+          const flow = createFlowMeta('Untitled flow');
+          await storage.saveMeta(flow);
+          await storage.save(flow.id, { nodes: [], edges: [] });
+          flows = [flow];
+        }
+
+        setLibrary((current) => {
+          const preferredId =
+            requestedFlowId || current?.activeFlowId || loadActiveFlowId();
+          const activeFlow =
+            flows.find((flow) => flow.id === preferredId) || flows[0];
+          return { flows, activeFlowId: activeFlow.id };
+        });
+        setError(null);
+      } catch (err) {
+        console.error('Error updating the flow library:', err);
+        setError((err as Error).message);
+      }
+    },
+    []
+  );
+
+  const refresh = useCallback(() => {
+    run(async () => undefined);
+  }, [run]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Reopen the same flow next time
+  useEffect(() => {
+    if (activeFlowId) {
+      saveActiveFlowId(activeFlowId);
+    }
+  }, [activeFlowId]);
+
+  const createFlow = useCallback(
+    (name = 'Untitled flow') => {
+      run(async (storage) => {
+        const flow = createFlowMeta(name);
+        await storage.saveMeta(flow);
+        // A new flow starts empty, the editor loads nothing else for it
+        await storage.save(flow.id, { nodes: [], edges: [] });
+        return flow.id;
+      });
+    },
+    [run]
+  );
+
+  const updateFlow = useCallback(
+    (flowId: string, changes: Partial<Pick<FlowMeta, 'name' | 'description'>>) => {
+      run(async (storage) => {
+        const flow = (await storage.list()).find((stored) => stored.id === flowId);
+        if (flow) {
+          await storage.saveMeta({
+            ...flow,
+            ...changes,
+            updatedAt: new Date().toISOString(),
+          });
+        }
+      });
+    },
+    [run]
+  );
+
+  const duplicateFlow = useCallback(
+    (flowId: string) => {
+      run(async (storage) => {
+        const original = (await storage.list()).find((flow) => flow.id === flowId);
+        if (!original) return;
+
+        const copy = createFlowMeta(`${original.name} (copy)`, original.description);
+        await storage.saveMeta(copy);
+        const flowState = await storage.load(flowId);
+        if (flowState) {
+          await storage.save(copy.id, flowState);
+        }
+      });
+    },
+    [run]
+  );
+
+  // The active flow falls back to the first remaining one
+  const deleteFlow = useCallback(
+    (flowId: string) => {
+      run(async (storage) => {
+        await storage.delete(flowId);
+      });
+    },
+    [run]
+  );
+
+  const switchFlow = useCallback(
+    (flowId: string) => {
+      run(async () => flowId);
+    },
+    [run]
+  );
+
+  const flows = library?.flows ?? [];
+
+  return {
+    isReady: library !== null,
+    flows,
+    activeFlowId,
+    activeFlow: flows.find((flow) => flow.id === activeFlowId),
+    error,
+    refresh,
+    createFlow,
+    updateFlow,
+    duplicateFlow,
+    deleteFlow,
+    switchFlow,
+  };
+};
@@ -0,0 +1,96 @@
+// src/hooks/useFlowStore.ts
+import { createContext, useContext } from 'react';
+import { Edge } from '@xyflow/react';
+import { CustomNode, FlowVariable, NodeTypes } from '@/types/FlowTypes';
+import { RichCardData } from '@/types/CardTypes';
+
+export interface FlowStore {
+  /** Merge changed fields into the data of a node */
+  updateNodeData: (nodeId: string, data: Partial<CustomNode['data']>) => void;
+  /**
+   * Merge a change that removes items of a node, e.g. an action or a carousel card,
+   * and drop the edges attached to the handles of those items
+   */
+  removeNodeItems: (
+    nodeId: string,
+    data: Partial<CustomNode['data']>,
+    handleIds: string[]
+  ) => void;
+  /** Add a copy of a node next to it, with new ids */
+  duplicateNode: (nodeId: string) => void;
+  /** Remove a node together with its edges */
+  deleteNode: (nodeId: string) => void;
+  /** Turn a node into another type, e.g. a rich card into a carousel */
+  convertNode: (nodeId: string, type: NodeTypes) => void;
+  /** Keep a node from being dragged, or allow it again */
+  setNodeLocked: (nodeId: string, locked: boolean) => void;
+  /** Add a card to the end of a carousel, keeping the edge that continues after it */
+  addCarouselCard: (nodeId: string, card: RichCardData) => void;
+  /** Move a card of a carousel one place to the left (-1) or right (1) */
+  moveCarouselCard: (nodeId: string, cardId: string, offset: -1 | 1) => void;
+  /** Remove a card from a carousel together with its edges */
+  deleteCarouselCard: (nodeId: string, cardId: string) => void;
+  /** Take a card out of a carousel as a rich card node, keeping its edges */
+  detachCarouselCard: (nodeId: string, cardId: string) => void;
+  /** Add a rich card node to the end of a carousel, keeping its edges */
+  mergeIntoCarousel: (nodeId: string, carouselId: string) => void;
+  /** Variables of the flow, offered when editing message text */
+  variables: FlowVariable[];
+}
+
+/**
+ * Context through which node components report their changes.
+ * The provider owns the nodes, so what is saved always matches the canvas.
+ */
+export const FlowStoreContext = createContext<FlowStore | null>(null);
+
+/**
+ * Merge changed fields into the data of one node in a list of nodes
+ */
+export const mergeNodeData = (
+  nodes: CustomNode[],
+  nodeId: string,
+  data: Partial<CustomNode['data']>
+): CustomNode[] =>
+  nodes.map((node) =>
+    node.id === nodeId
+      ? ({ ...node, data: { ...node.data, ...data } } as CustomNode)
+      : node
+  );
+
+/**
+ * Drop the edges attached to some handles of a node
+ */
+export const removeHandleEdges = (
+  edges: Edge[],
+  nodeId: string,
+  handleIds: string[]
+): Edge[] =>
+  edges.filter(
+    (edge) =>
+      !(edge.source === nodeId && handleIds.includes(edge.sourceHandle || '')) &&
+      !(edge.target === nodeId && handleIds.includes(edge.targetHandle || ''))
+  );
+
+/**
+ * Lock or unlock the position of one node in a list of nodes
+ */
+export const lockNode = (
+  nodes: CustomNode[],
+  nodeId: string,
+  locked: boolean
+): CustomNode[] =>
+  nodes.map((node) =>
+    node.id === nodeId ? { ...node, draggable: locked ? false : undefined } : node
+  );
+
+/**
+ * Hook for accessing the flow store from inside a node component
+ */
+export const useFlowStore = (): FlowStore => {
+  const store = useContext(FlowStoreContext);
+  if (!store) {
+    throw new Error('useFlowStore must be used inside a FlowStoreContext provider');
+  }
+  return store;
+};
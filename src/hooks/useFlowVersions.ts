@@ -0,0 +1,88 @@
+// src/hooks/useFlowVersions.ts
+import { useCallback, useEffect, useState } from 'react';
+import { getFlowStorage } from '../lib/flowStorage';
+import { FlowState, FlowVersion } from '@/types/FlowTypes';
+import { FlowStorage } from '@/types/StorageTypes';
+
+interface UseFlowVersionsResult {
+  /** Saved versions of the flow, newest first */
+  versions: FlowVersion[];
+  /** Last version change that could not be stored */
+  error: string | null;
+  /** Store the given state as a new version */
+  saveVersion: (label: string, flowState: FlowState) => void;
+  /** State of a saved version, or null when it could not be read */
+  loadVersion: (versionId: string) => Promise<FlowState | null>;
+  deleteVersion: (versionId: string) => void;
+}
+
+/**
+ * Hook for the saved versions of a flow, snapshots kept apart from the working
+ * copy that autosave overwrites
+ */
+export const useFlowVersions = (flowId: string): UseFlowVersionsResult => {
+  const [versions, setVersions] = useState<FlowVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Run a change against the storage, then show the stored versions
+  const run = useCallback(
+    async (change: (storage: FlowStorage) => Promise<void>) => {
+      try {
+        const storage = await getFlowStorage();
+        await change(storage);
+        setVersions((await storage.listVersions(flowId)).reverse());
+        setError(null);
+      } catch (err) {
+        console.error('Error updating the flow versions:', err);
+        setError((err as Error).message);
+      }
+    },
+    [flowId]
+  );
+
+  useEffect(() => {
+    run(async () => undefined);
+  }, [run]);
+
+  const saveVersion = useCallback(
+    (label: string, flowState: FlowState) => {
+      run(async (storage) => {
+        await storage.saveVersion(
+          {
+            id: `version-${Date.now()}`,
+            flowId,
+            label,
+            createdAt: new Date().toISOString(),
+          },
+          flowState
+        );
+      });
+    },
+    [flowId, run]
+  );
+
+  const loadVersion = useCallback(
+    async (versionId: string) => {
+      try {
+        const storage = await getFlowStorage();
+        return await storage.loadVersion(flowId, versionId);
+      } catch (err) {
+        console.error('Error loading a flow version:', err);
+        setError((err as Error).message);
+        return null;
+      }
+    },
+    [flowId]
+  );
+
+  const deleteVersion = useCallback(
+    (versionId: string) => {
+      run(async (storage) => {
+        await storage.deleteVersion(flowId, versionId);
+      });
+    },
+    [flowId, run]
+  );
+
+  return { versions, error, saveVersion, loadVersion, deleteVersion };
+};
@@ -0,0 +1,17 @@
+// src/hooks/useHandleOrder.ts
+import { useEffect } from 'react';
+import { useUpdateNodeInternals } from '@xyflow/react';
+
+/**
+ * Hook that re-measures the handles of a node when their order changes.
+ * React Flow only measures handles when a node is resized, so after a reorder
+ * the edges would still leave from the rows the handles had before.
+ */
+export const useHandleOrder = (nodeId: string, handleIds: string[]): void => {
+  const updateNodeInternals = useUpdateNodeInternals();
+  const handleOrder = handleIds.join('\n');
+
+  useEffect(() => {
+    updateNodeInternals(nodeId);
+  }, [nodeId, handleOrder, updateNodeInternals]);
+};
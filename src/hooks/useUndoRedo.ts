@@ -0,0 +1,88 @@
+// src/hooks/useUndoRedo.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FlowState } from '@/types/FlowTypes';
+
+interface UseUndoRedoOptions {
+  /** Maximum number of undo steps kept */
+  maxHistorySize?: number;
+  /** Changes with the same key closer together than this (ms) form one undo step */
+  coalesceTime?: number;
+}
+
+interface UseUndoRedoResult {
+  /**
+   * Record the current flow before it changes.
+   * Pass a key to merge a burst of similar changes (a drag, typing) into one step.
+   */
+  takeSnapshot: (coalesceKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Hook for undo/redo history of a flow
+ */
+export const useUndoRedo = (
+  flowState: FlowState,
+  applyFlowState: (flowState: FlowState) => void,
+  options: UseUndoRedoOptions = {}
+): UseUndoRedoResult => {
+  const { maxHistorySize = 100, coalesceTime = 1000 } = options;
+  const [past, setPast] = useState<FlowState[]>([]);
+  const [future, setFuture] = useState<FlowState[]>([]);
+  const lastChange = useRef<{ key: string; time: number } | null>(null);
+
+  // Keep the latest flow at hand for snapshots taken from event handlers
+  const current = useRef<FlowState>(flowState);
+  useEffect(() => {
+    current.current = flowState;
+  }, [flowState]);
+
+  const takeSnapshot = useCallback(
+    (coalesceKey?: string) => {
+      const now = Date.now();
+      const last = lastChange.current;
+      if (coalesceKey && last && last.key === coalesceKey && now - last.time < coalesceTime) {
+        // Still the same burst, the snapshot from its start covers it
+        last.time = now;
+        return;
+      }
+
+      lastChange.current = coalesceKey ? { key: coalesceKey, time: now } : null;
+      const snapshot = current.current;
+      setPast((entries) => [...entries.slice(-(maxHistorySize - 1)), snapshot]);
+      setFuture([]);
+    },
+    [coalesceTime, maxHistorySize]
+  );
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+
+    lastChange.current = null;
+    setPast(past.slice(0, -1));
+    setFuture([current.current, ...future]);
+    applyFlowState(previous);
+  }, [past, future, applyFlowState]);
+
+  const redo = useCallback(() => {
+    const next = future[0];
+    if (!next) return;
+
+    lastChange.current = null;
+    setFuture(future.slice(1));
+    setPast([...past, current.current]);
+    applyFlowState(next);
+  }, [past, future, applyFlowState]);
+
+  return {
+    takeSnapshot,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+};
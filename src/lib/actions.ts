@@ -0,0 +1,178 @@
+import {
+  ActionTypes,
+  ButtonData,
+  CarouselCardData,
+  RichCardData,
+  TextMessageData,
+} from '@/types/CardTypes';
+import { FlowState, NodeTypes } from '@/types/FlowTypes';
+
+/** Labels shown for each action type in the editor */
+export const ACTION_TYPE_LABELS: Record<ActionTypes, string> = {
+  [ActionTypes.REPLY]: 'Reply',
+  [ActionTypes.OPEN_URL]: 'Open URL',
+  [ActionTypes.DIAL]: 'Dial',
+  [ActionTypes.VIEW_LOCATION]: 'View location',
+  [ActionTypes.SHARE_LOCATION]: 'Share location',
+  [ActionTypes.CREATE_CALENDAR_EVENT]: 'Create calendar event',
+  [ActionTypes.POSTBACK]: 'Postback',
+};
+
+const isActionType = (value: unknown): value is ActionTypes =>
+  Object.values(ActionTypes).includes(value as ActionTypes);
+
+/**
+ * Change the type of an action.
+ * The id, label and title are kept, fields of the new type start out empty.
+ */
+export const changeActionType = (
+  button: ButtonData,
+  action: ActionTypes
+): ButtonData => {
+  const { id, label, type, title } = button;
+  const base = { id, label, type, title };
+
+  switch (action) {
+    case ActionTypes.OPEN_URL:
+      return { ...base, action, url: '' };
+    case ActionTypes.DIAL:
+      return { ...base, action, phoneNumber: '' };
+    case ActionTypes.VIEW_LOCATION:
+      return { ...base, action, latitude: '', longitude: '', locationLabel: '' };
+    case ActionTypes.CREATE_CALENDAR_EVENT:
+      return { ...base, action, startTime: '', endTime: '', eventTitle: '' };
+    case ActionTypes.POSTBACK:
+      return { ...base, action, postbackData: '' };
+    case ActionTypes.SHARE_LOCATION:
+    case ActionTypes.REPLY:
+      return { ...base, action };
+  }
+};
+
+/**
+ * What an action does in a few words, e.g. "Dial: +12125551234"
+ */
+export const describeAction = (button: ButtonData): string => {
+  const label = ACTION_TYPE_LABELS[button.action] || ACTION_TYPE_LABELS[ActionTypes.REPLY];
+  const detail = (() => {
+    switch (button.action) {
+      case ActionTypes.OPEN_URL:
+        return button.url;
+      case ActionTypes.DIAL:
+        return button.phoneNumber;
+      case ActionTypes.VIEW_LOCATION:
+        return (
+          button.locationLabel ||
+          (button.latitude && button.longitude
+            ? `${button.latitude}, ${button.longitude}`
+            : '')
+        );
+      case ActionTypes.CREATE_CALENDAR_EVENT:
+        return button.eventTitle;
+      case ActionTypes.POSTBACK:
+        return button.postbackData;
+      default:
+        return '';
+    }
+  })();
+  return detail ? `${label}: ${detail}` : label;
+};
+
+/**
+ * Create a new reply action
+ */
+export const createAction = (label: string, title: string): ButtonData => ({
+  id: `action-${Date.now()}`,
+  label,
+  action: ActionTypes.REPLY,
+  type: 'action',
+  title,
+});
+
+/**
+ * Ids of the handles of an action, edges on them go when the action is deleted
+ */
+export const actionHandleIds = (actionId: string): string[] => [
+  `action-${actionId}`,
+  `action-${actionId}-target`,
+];
+
+/**
+ * Insert a copy of an action with a new id right after it
+ */
+export const duplicateAction = (
+  actions: ButtonData[],
+  actionId: string
+): ButtonData[] =>
+  actions.flatMap((action) =>
+    action.id === actionId
+      ? [action, { ...action, id: `action-${Date.now()}` }]
+      : [action]
+  );
+
+/**
+ * Move an item of a list one place up (-1) or down (1)
+ */
+export const moveItem = <T>(items: T[], index: number, offset: -1 | 1): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+/**
+ * Turn a stored button into a typed action.
+ * Buttons saved before actions had types (e.g. `DEFAULT_ACTION`) become replies,
+ * and missing fields of a known type are filled in.
+ */
+export const normalizeAction = (button: ButtonData): ButtonData => {
+  const stored = button as unknown as Record<string, unknown>;
+  if (!isActionType(stored.action)) {
+    return changeActionType(button, ActionTypes.REPLY);
+  }
+  return { ...changeActionType(button, stored.action), ...button };
+};
+
+/**
+ * Normalize the actions of every card and message in a flow
+ */
+export const normalizeFlowActions = (flowState: FlowState): FlowState => ({
+  ...flowState,
+  nodes: flowState.nodes.map((node) => {
+    if (node.type === NodeTypes.CAROUSEL_CARD) {
+      const data = node.data as CarouselCardData;
+      return {
+        ...node,
+        data: {
+          ...data,
+          cards: (data.cards || []).map((card) => ({
+            ...card,
+            buttons: (card.buttons || []).map(normalizeAction),
+          })),
+        },
+      };
+    }
+
+    if (node.type === NodeTypes.TEXT_MESSAGE) {
+      const data = node.data as TextMessageData;
+      return {
+        ...node,
+        data: {
+          ...data,
+          suggestions: (data.suggestions || []).map(normalizeAction),
+        },
+      };
+    }
+
+    if (node.type === NodeTypes.RICH_CARD) {
+      const data = node.data as RichCardData;
+      return {
+        ...node,
+        data: { ...data, buttons: (data.buttons || []).map(normalizeAction) },
+      };
+    }
+
+    return node;
+  }),
+});
@@ -0,0 +1,152 @@
+import { Edge, XYPosition } from '@xyflow/react';
+import { CustomNode } from '@/types/FlowTypes';
+
+/**
+ * Directions the conversation can run in after an auto layout
+ */
+export enum LayoutDirections {
+  LEFT_RIGHT = 'leftRight',
+  TOP_BOTTOM = 'topBottom',
+}
+
+export interface LayoutOptions {
+  direction: LayoutDirections;
+  /** Gap between layers, i.e. between a node and the nodes it leads to */
+  layerSpacing: number;
+  /** Gap between nodes of the same layer */
+  nodeSpacing: number;
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  direction: LayoutDirections.LEFT_RIGHT,
+  layerSpacing: 120,
+  nodeSpacing: 40,
+};
+
+// Used for nodes that were never rendered, about the size of a card
+const DEFAULT_NODE_WIDTH = 336;
+const DEFAULT_NODE_HEIGHT = 400;
+
+const getNodeSize = (node: CustomNode): { width: number; height: number } => ({
+  width: node.measured?.width ?? node.width ?? DEFAULT_NODE_WIDTH,
+  height: node.measured?.height ?? node.height ?? DEFAULT_NODE_HEIGHT,
+});
+
+// Top left to bottom right, so leftover nodes are taken in reading order
+const byPosition = (a: CustomNode, b: CustomNode): number =>
+  a.position.x - b.position.x || a.position.y - b.position.y;
+
+/**
+ * Assign every node a layer: its distance from the start node following edges.
+ * Nodes without incoming edges start layers of their own, and nodes only reachable
+ * through a cycle start from the first of them in reading order.
+ * The map lists the nodes in the order they were reached.
+ */
+const assignLayers = (
+  nodes: CustomNode[],
+  edges: Edge[],
+  startNodeId?: string
+): Map<string, number> => {
+  const targets = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  edges.forEach((edge) => {
+    if (edge.source === edge.target) return;
+    targets.set(edge.source, [...(targets.get(edge.source) || []), edge.target]);
+    hasIncoming.add(edge.target);
+  });
+
+  const sorted = [...nodes].sort(byPosition);
+  const roots = [
+    ...sorted.filter((node) => node.id === startNodeId),
+    ...sorted.filter((node) => node.id !== startNodeId && !hasIncoming.has(node.id)),
+    ...sorted,
+  ];
+
+  const layers = new Map<string, number>();
+  roots.forEach((root) => {
+    if (layers.has(root.id)) return;
+    layers.set(root.id, 0);
+    const queue = [root.id];
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      (targets.get(id) || []).forEach((target) => {
+        if (!layers.has(target)) {
+          layers.set(target, (layers.get(id) as number) + 1);
+          queue.push(target);
+        }
+      });
+    }
+  });
+  return layers;
+};
+
+/**
+ * Arrange a flow as a layered tree following the edges from the start node.
+ * Each layer holds the nodes one step further into the conversation, sized by the
+ * rendered height of the cards, and nodes are ordered within a layer to sit close
+ * to the nodes leading to them. Nodes with a locked position stay where they are.
+ */
+export const layoutFlow = (
+  nodes: CustomNode[],
+  edges: Edge[],
+  startNodeId?: string,
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): CustomNode[] => {
+  const layers = assignLayers(nodes, edges, startNodeId);
+  const layerCount = Math.max(0, ...layers.values()) + 1;
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  // In the order they were reached, so branches keep the order of their edges
+  const reached = [...layers.keys()].map((id) => nodesById.get(id) as CustomNode);
+  const horizontal = options.direction === LayoutDirections.LEFT_RIGHT;
+
+  // Order of each node within its layer, filled in layer by layer
+  const order = new Map<string, number>();
+  const columns: CustomNode[][] = [];
+  for (let layer = 0; layer < layerCount; layer++) {
+    const layerNodes = reached.filter((node) => layers.get(node.id) === layer);
+    // Average place of the nodes leading here, so branches don't cross
+    const barycenter = (node: CustomNode): number => {
+      const places = edges
+        .filter((edge) => edge.target === node.id && order.has(edge.source))
+        .map((edge) => order.get(edge.source) as number);
+      return places.length > 0
+        ? places.reduce((sum, place) => sum + place, 0) / places.length
+        : Number.MAX_SAFE_INTEGER;
+    };
+    const column = [...layerNodes].sort((a, b) => barycenter(a) - barycenter(b));
+    column.forEach((node, index) => order.set(node.id, index));
+    columns.push(column);
+  }
+
+  const positions = new Map<string, XYPosition>();
+  let layerOffset = 0;
+  columns.forEach((column) => {
+    const sizes = column.map(getNodeSize);
+    // Depth of the layer along the direction of the flow, e.g. its width left to right
+    const depth = Math.max(
+      0,
+      ...sizes.map((size) => (horizontal ? size.width : size.height))
+    );
+    const breadth =
+      sizes.reduce((sum, size) => sum + (horizontal ? size.height : size.width), 0) +
+      options.nodeSpacing * Math.max(0, column.length - 1);
+
+    // Layers are centered on the same line
+    let nodeOffset = -breadth / 2;
+    column.forEach((node, index) => {
+      positions.set(
+        node.id,
+        horizontal ? { x: layerOffset, y: nodeOffset } : { x: nodeOffset, y: layerOffset }
+      );
+      nodeOffset +=
+        (horizontal ? sizes[index].height : sizes[index].width) + options.nodeSpacing;
+    });
+    layerOffset += depth + options.layerSpacing;
+  });
+
+  return nodes.map((node) =>
+    node.draggable === false
+      ? node
+      : { ...node, position: positions.get(node.id) ?? node.position }
+  );
+};
@@ -0,0 +1,227 @@
+import { Edge } from '@xyflow/react';
+import { CarouselCardData, RichCardData } from '@/types/CardTypes';
+import { CustomNode, NodeTypes } from '@/types/FlowTypes';
+import { moveItem } from './actions';
+
+/**
+ * Nodes and edges of a flow, changed together when cards move between nodes
+ */
+export interface FlowGraph {
+  nodes: CustomNode[];
+  edges: Edge[];
+}
+
+// Room between a carousel and a card detached from it
+const DETACH_GAP = 80;
+const DEFAULT_CAROUSEL_WIDTH = 336;
+
+const isCardSourceHandle = (handleId: string | null | undefined): boolean =>
+  !!handleId && handleId.startsWith('card-') && handleId.endsWith('-source');
+
+const isActionHandle = (handleId: string | null | undefined): boolean =>
+  !!handleId && handleId.startsWith('action-');
+
+const getCards = (node: CustomNode): RichCardData[] =>
+  (node.data as CarouselCardData).cards || [];
+
+const withCards = (node: CustomNode, cards: RichCardData[]): CustomNode =>
+  ({ ...node, data: { ...node.data, cards } }) as CustomNode;
+
+const replaceNode = (nodes: CustomNode[], node: CustomNode): CustomNode[] =>
+  nodes.map((n) => (n.id === node.id ? node : n));
+
+// Handles on a card that edges can end at
+const getCardTargetHandles = (card: RichCardData): string[] => [
+  `card-${card.id}-target`,
+  ...(card.buttons || []).map((button) => `action-${button.id}-target`),
+];
+
+const getActionHandles = (card: RichCardData): string[] =>
+  (card.buttons || []).map((button) => `action-${button.id}`);
+
+/**
+ * Only the last card of a carousel has a source handle, so the edge continuing
+ * the conversation after the carousel moves along to whichever card is last
+ */
+const keepContinuation = (edges: Edge[], carousel: CustomNode): Edge[] => {
+  const cards = getCards(carousel);
+  const last = cards[cards.length - 1];
+  if (!last) return edges;
+  return edges.map((edge) =>
+    edge.source === carousel.id && isCardSourceHandle(edge.sourceHandle)
+      ? { ...edge, sourceHandle: `card-${last.id}-source` }
+      : edge
+  );
+};
+
+const findCarousel = (graph: FlowGraph, carouselId: string): CustomNode | undefined =>
+  graph.nodes.find(
+    (node) => node.id === carouselId && node.type === NodeTypes.CAROUSEL_CARD
+  );
+
+/**
+ * Add a card to the end of a carousel. The edge continuing after the carousel
+ * moves to the new card, which is now the only one with a source handle.
+ */
+export const addCarouselCard = (
+  graph: FlowGraph,
+  carouselId: string,
+  card: RichCardData
+): FlowGraph => {
+  const carousel = findCarousel(graph, carouselId);
+  if (!carousel) return graph;
+
+  const updated = withCards(carousel, [...getCards(carousel), card]);
+  return {
+    nodes: replaceNode(graph.nodes, updated),
+    edges: keepContinuation(graph.edges, updated),
+  };
+};
+
+/**
+ * Move a card of a carousel one place to the left (-1) or right (1)
+ */
+export const moveCarouselCard = (
+  graph: FlowGraph,
+  carouselId: string,
+  cardId: string,
+  offset: -1 | 1
+): FlowGraph => {
+  const carousel = findCarousel(graph, carouselId);
+  if (!carousel) return graph;
+  const cards = getCards(carousel);
+  const index = cards.findIndex((card) => card.id === cardId);
+  if (index === -1) return graph;
+
+  const moved = withCards(carousel, moveItem(cards, index, offset));
+  return {
+    nodes: replaceNode(graph.nodes, moved),
+    edges: keepContinuation(graph.edges, moved),
+  };
+};
+
+/**
+ * Remove a card from a carousel together with the edges of its handles
+ */
+export const deleteCarouselCard = (
+  graph: FlowGraph,
+  carouselId: string,
+  cardId: string
+): FlowGraph => {
+  const carousel = findCarousel(graph, carouselId);
+  const card = carousel && getCards(carousel).find((c) => c.id === cardId);
+  if (!carousel || !card) return graph;
+
+  const updated = withCards(
+    carousel,
+    getCards(carousel).filter((c) => c.id !== cardId)
+  );
+  const targetHandles = getCardTargetHandles(card);
+  const actionHandles = getActionHandles(card);
+  return {
+    nodes: replaceNode(graph.nodes, updated),
+    edges: keepContinuation(
+      graph.edges.filter(
+        (edge) =>
+          !(edge.target === carouselId && targetHandles.includes(edge.targetHandle || '')) &&
+          !(edge.source === carouselId && actionHandles.includes(edge.sourceHandle || ''))
+      ),
+      updated
+    ),
+  };
+};
+
+/**
+ * Take a card out of a carousel as a rich card node placed next to it.
+ * Edges from the actions of the card move along, and edges into the card end
+ * at the rich card instead.
+ */
+export const detachCarouselCard = (
+  graph: FlowGraph,
+  carouselId: string,
+  cardId: string
+): FlowGraph => {
+  const carousel = findCarousel(graph, carouselId);
+  const card = carousel && getCards(carousel).find((c) => c.id === cardId);
+  // A carousel keeps at least one card
+  if (!carousel || !card || getCards(carousel).length < 2) return graph;
+
+  const id = `${NodeTypes.RICH_CARD}-${Date.now()}`;
+  const richCard = {
+    id,
+    type: NodeTypes.RICH_CARD,
+    position: {
+      x:
+        carousel.position.x +
+        (carousel.measured?.width ?? DEFAULT_CAROUSEL_WIDTH) +
+        DETACH_GAP,
+      y: carousel.position.y,
+    },
+    data: { ...card, id, buttons: card.buttons || [] },
+  } as CustomNode;
+  const updated = withCards(
+    carousel,
+    getCards(carousel).filter((c) => c.id !== cardId)
+  );
+
+  const targetHandles = getCardTargetHandles(card);
+  const actionHandles = getActionHandles(card);
+  const edges = graph.edges.map((edge) => {
+    if (edge.source === carouselId && actionHandles.includes(edge.sourceHandle || '')) {
+      return { ...edge, source: id };
+    }
+    if (edge.target === carouselId && targetHandles.includes(edge.targetHandle || '')) {
+      return { ...edge, target: id, targetHandle: `node-${id}-left` };
+    }
+    return edge;
+  });
+
+  return {
+    nodes: [...replaceNode(graph.nodes, updated), richCard],
+    edges: keepContinuation(edges, updated),
+  };
+};
+
+/**
+ * Add a rich card to the end of a carousel and remove the rich card node.
+ * Edges from its actions start at the carousel, edges into it end at the new
+ * card, and the edge continuing after it now continues after the carousel.
+ */
+export const mergeIntoCarousel = (
+  graph: FlowGraph,
+  richCardId: string,
+  carouselId: string
+): FlowGraph => {
+  const carousel = findCarousel(graph, carouselId);
+  const richCard = graph.nodes.find(
+    (node) => node.id === richCardId && node.type === NodeTypes.RICH_CARD
+  );
+  if (!carousel || !richCard) return graph;
+
+  const { title, description, imageUrl, buttons } = richCard.data as RichCardData;
+  const cardId = `${carouselId}-card-${Date.now()}`;
+  const updated = withCards(carousel, [
+    ...getCards(carousel),
+    { id: cardId, title, description, imageUrl, buttons: buttons || [] },
+  ]);
+
+  const edges = graph.edges.map((edge) => {
+    if (edge.source === richCardId) {
+      return isActionHandle(edge.sourceHandle)
+        ? { ...edge, source: carouselId }
+        : { ...edge, source: carouselId, sourceHandle: `card-${cardId}-source` };
+    }
+    if (edge.target === richCardId) {
+      return { ...edge, target: carouselId, targetHandle: `card-${cardId}-target` };
+    }
+    return edge;
+  });
+
+  return {
+    nodes: replaceNode(
+      graph.nodes.filter((node) => node.id !== richCardId),
+      updated
+    ),
+    edges: keepContinuation(edges, updated),
+  };
+};
@@ -0,0 +1,68 @@
+import { Condition, ConditionOperators } from '@/types/CardTypes';
+import { VariableValues, getVariableValue } from './templating';
+
+/** Labels shown for each condition operator in the editor */
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperators, string> = {
+  [ConditionOperators.EQUALS]: 'Equals',
+  [ConditionOperators.CONTAINS]: 'Contains',
+  [ConditionOperators.GREATER_THAN]: 'Greater than',
+  [ConditionOperators.IS_SET]: 'Is set',
+  [ConditionOperators.REGEX]: 'Regex',
+};
+
+/**
+ * Read a number the way a user would write it, or null when the text is not one
+ */
+export const parseNumber = (text: string): number | null => {
+  const trimmed = text.trim();
+  const number = Number(trimmed);
+  return trimmed !== '' && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Check whether the variable values satisfy a single condition.
+ * Text comparisons ignore case, greater-than needs two numbers.
+ */
+export const evaluateCondition = (
+  condition: Condition,
+  values: VariableValues
+): boolean => {
+  const actual = (getVariableValue(values, condition.variable) ?? '').trim();
+  const expected = condition.value.trim();
+
+  switch (condition.operator) {
+    case ConditionOperators.EQUALS:
+      return actual.toLowerCase() === expected.toLowerCase();
+    case ConditionOperators.CONTAINS:
+      return actual.toLowerCase().includes(expected.toLowerCase());
+    case ConditionOperators.GREATER_THAN: {
+      const actualNumber = parseNumber(actual);
+      const expectedNumber = parseNumber(expected);
+      return (
+        actualNumber !== null &&
+        expectedNumber !== null &&
+        actualNumber > expectedNumber
+      );
+    }
+    case ConditionOperators.IS_SET:
+      return actual !== '';
+    case ConditionOperators.REGEX:
+      try {
+        return new RegExp(condition.value, 'i').test(actual);
+      } catch {
+        // An invalid pattern never matches
+        return false;
+      }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Find the first condition, in order, that the variable values satisfy
+ */
+export const findCondition = (
+  conditions: Condition[],
+  values: VariableValues
+): Condition | null =>
+  conditions.find((condition) => evaluateCondition(condition, values)) ?? null;
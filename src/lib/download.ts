@@ -0,0 +1,18 @@
+/**
+ * Download data as a pretty-printed JSON file
+ */
+export const downloadJson = (data: unknown, fileName: string): void => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,178 @@
+import { Edge, XYPosition } from '@xyflow/react';
+import { CustomNode } from '@/types/FlowTypes';
+
+// Marks clipboard text as nodes copied from this app
+const CLIPBOARD_FORMAT = 'rcs-chatbot-builder/nodes';
+
+/**
+ * Nodes copied to the clipboard, with the edges between them
+ */
+export interface FlowClipboard {
+  format: typeof CLIPBOARD_FORMAT;
+  nodes: CustomNode[];
+  edges: Edge[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Copy nodes together with the edges that connect them to each other.
+ * Edges to nodes outside the copy are left behind.
+ */
+export const copyNodes = (nodes: CustomNode[], edges: Edge[]): FlowClipboard => {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  return {
+    format: CLIPBOARD_FORMAT,
+    nodes: nodes.map(
+      (node) =>
+        ({
+          id: node.id,
+          type: node.type,
+          position: node.position,
+          data: node.data,
+        }) as CustomNode
+    ),
+    edges: edges
+      .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+      .map(({ id, source, sourceHandle, target, targetHandle }) => ({
+        id,
+        source,
+        sourceHandle,
+        target,
+        targetHandle,
+      })),
+  };
+};
+
+/**
+ * Read nodes copied from this app out of clipboard text, or null for anything else
+ */
+export const parseClipboard = (text: string): FlowClipboard | null => {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isObject(parsed) &&
+      parsed.format === CLIPBOARD_FORMAT &&
+      Array.isArray(parsed.nodes) &&
+      Array.isArray(parsed.edges)
+      ? (parsed as unknown as FlowClipboard)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Keys of node data whose items have their own id, handles are built from these ids
+const ID_LIST_KEYS = [
+  'cards',
+  'buttons',
+  'suggestions',
+  'matchers',
+  'conditions',
+  'headers',
+  'responseMappings',
+];
+
+/**
+ * Give every item with an id in node data a new one, recording the old → new ids
+ */
+const renewIds = (
+  value: unknown,
+  ids: Map<string, string>,
+  newId: (id: string) => string
+): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => renewIds(item, ids, newId));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = { ...value };
+  if (typeof copy.id === 'string') {
+    if (!ids.has(copy.id)) {
+      ids.set(copy.id, newId(copy.id));
+    }
+    copy.id = ids.get(copy.id);
+  }
+  ID_LIST_KEYS.forEach((key) => {
+    if (Array.isArray(copy[key])) {
+      copy[key] = renewIds(copy[key], ids, newId);
+    }
+  });
+  return copy;
+};
+
+/**
+ * Swap the id a handle id is built from, e.g. action-<button id>-target
+ */
+const renewHandleId = (
+  handleId: string | null | undefined,
+  ids: Map<string, string>
+): string | null | undefined => {
+  if (!handleId) {
+    return handleId;
+  }
+  // The longest id wins, so a node id never replaces part of a card id built from it
+  const oldId = [...ids.keys()]
+    .filter((id) => handleId.includes(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return oldId ? handleId.replace(oldId, ids.get(oldId) as string) : handleId;
+};
+
+/**
+ * Create fresh copies of clipboard nodes, placed with their top left corner at a position.
+ * Node, card, action and other item ids are regenerated, and the edges between the
+ * copies are rebuilt with the new ids and handle ids.
+ */
+export const pasteNodes = (
+  clipboard: FlowClipboard,
+  position: XYPosition
+): { nodes: CustomNode[]; edges: Edge[] } => {
+  const stamp = Date.now();
+  let count = 0;
+  const newId = (id: string) => {
+    // Keep the readable prefix, e.g. richCard- or action-
+    const prefix = id.match(/^[a-zA-Z]+/)?.[0] || 'item';
+    return `${prefix}-${stamp}-${count++}`;
+  };
+
+  const left = Math.min(...clipboard.nodes.map((node) => node.position.x));
+  const top = Math.min(...clipboard.nodes.map((node) => node.position.y));
+  const ids = new Map<string, string>();
+
+  const nodes = clipboard.nodes.map((node) => {
+    const id = newId(node.id);
+    // Registered first, so node data that repeats the node id keeps doing so
+    ids.set(node.id, id);
+    return {
+      ...node,
+      id,
+      data: renewIds(node.data, ids, newId) as CustomNode['data'],
+      selected: true,
+      position: {
+        x: position.x + node.position.x - left,
+        y: position.y + node.position.y - top,
+      },
+    } as CustomNode;
+  });
+
+  const edges = clipboard.edges.flatMap((edge): Edge[] => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return [];
+    const sourceHandle = renewHandleId(edge.sourceHandle, ids);
+    return [
+      {
+        ...edge,
+        id: `${source}-${sourceHandle}-to-${target}`,
+        source,
+        target,
+        sourceHandle,
+        targetHandle: renewHandleId(edge.targetHandle, ids),
+      },
+    ];
+  });
+
+  return { nodes, edges };
+};
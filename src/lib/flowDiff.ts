@@ -0,0 +1,275 @@
+import { Edge } from '@xyflow/react';
+import { CustomNode, FlowState, NodeTypes } from '@/types/FlowTypes';
+import {
+  ButtonData,
+  CarouselCardData,
+  RichCardData,
+  TextMessageData,
+} from '@/types/CardTypes';
+import { describeAction } from './actions';
+import { getNodeLabel } from './nodeLabels';
+
+/**
+ * How a node or edge differs between two versions of a flow
+ */
+export enum DiffStatuses {
+  ADDED = 'added',
+  REMOVED = 'removed',
+  CHANGED = 'changed',
+}
+
+/**
+ * A field whose value differs, with both values as text.
+ * The value is empty when the field was added or removed.
+ */
+export interface FieldChange {
+  /** What changed, e.g. "Card 2 title" */
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface NodeDiff {
+  nodeId: string;
+  /** Label of the node in the newer version, or the older one when it was removed */
+  label: string;
+  status: DiffStatuses;
+  /** Changed fields, only listed for changed nodes */
+  changes: FieldChange[];
+}
+
+export interface EdgeDiff {
+  edgeId: string;
+  status: DiffStatuses;
+  /** Nodes the edge connects, e.g. "Welcome → Pick a size" */
+  label: string;
+}
+
+export interface FlowDiff {
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+}
+
+const fieldChange = (field: string, before: string, after: string): FieldChange[] =>
+  before === after ? [] : [{ field, before, after }];
+
+// Uploaded images are data URLs, too long to show
+const describeImage = (imageUrl: string | undefined): string => {
+  if (!imageUrl) return '';
+  return imageUrl.startsWith('data:') ? 'Uploaded image' : imageUrl;
+};
+
+const describeValue = (value: unknown): string =>
+  value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const getActionName = (action: ButtonData): string =>
+  `"${action.title || action.label || 'Untitled'}"`;
+
+/**
+ * Compare lists of items by id, giving the items on both sides, in the order of
+ * the newer list followed by the removed items
+ */
+const pairById = <T extends { id: string }>(
+  before: T[],
+  after: T[]
+): { before?: T; after?: T }[] => {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+  return [
+    ...after.map((item) => ({ before: beforeById.get(item.id), after: item })),
+    ...before.filter((item) => !afterIds.has(item.id)).map((item) => ({ before: item })),
+  ];
+};
+
+const orderChange = <T extends { id: string }>(
+  field: string,
+  before: T[],
+  after: T[]
+): FieldChange[] => {
+  const afterIds = new Set(after.map((item) => item.id));
+  const beforeIds = new Set(before.map((item) => item.id));
+  const kept = (items: T[], ids: Set<string>) =>
+    items.filter((item) => ids.has(item.id)).map((item) => item.id).join(',');
+  return kept(before, afterIds) === kept(after, beforeIds)
+    ? []
+    : [{ field, before: 'Previous order', after: 'New order' }];
+};
+
+const diffActions = (
+  before: ButtonData[],
+  after: ButtonData[],
+  prefix: string
+): FieldChange[] => [
+  ...pairById(before, after).flatMap(({ before: old, after: current }) => {
+    if (!old && current) {
+      return fieldChange(`${prefix} ${getActionName(current)}`, '', describeAction(current));
+    }
+    if (old && !current) {
+      return fieldChange(`${prefix} ${getActionName(old)}`, describeAction(old), '');
+    }
+    if (!old || !current) return [];
+    const name = `${prefix} ${getActionName(current)}`;
+    return [
+      ...fieldChange(`${name} title`, old.title || '', current.title || ''),
+      ...fieldChange(`${name} label`, old.label || '', current.label || ''),
+      ...fieldChange(name, describeAction(old), describeAction(current)),
+    ];
+  }),
+  ...orderChange(`${prefix} order`, before, after),
+];
+
+const diffCards = (
+  before: RichCardData,
+  after: RichCardData,
+  prefix: string
+): FieldChange[] => [
+  ...fieldChange(`${prefix}title`, before.title || '', after.title || ''),
+  ...fieldChange(`${prefix}description`, before.description || '', after.description || ''),
+  ...fieldChange(
+    `${prefix}image`,
+    describeImage(before.imageUrl),
+    describeImage(after.imageUrl)
+  ),
+  ...diffActions(before.buttons || [], after.buttons || [], `${prefix}action`),
+];
+
+const diffCarousels = (
+  before: CarouselCardData,
+  after: CarouselCardData
+): FieldChange[] => {
+  const afterCards = after.cards || [];
+  const beforeCards = before.cards || [];
+  return [
+    ...pairById(beforeCards, afterCards).flatMap(({ before: old, after: current }) => {
+      if (current) {
+        const prefix = `Card ${afterCards.indexOf(current) + 1} `;
+        return old
+          ? diffCards(old, current, prefix)
+          : fieldChange(`${prefix}added`, '', current.title || 'Untitled card');
+      }
+      return old
+        ? fieldChange(
+            `Card ${beforeCards.indexOf(old) + 1} removed`,
+            old.title || 'Untitled card',
+            ''
+          )
+        : [];
+    }),
+    ...orderChange('Card order', beforeCards, afterCards),
+  ];
+};
+
+// Fields of nodes without a dedicated comparison, e.g. conditions and API calls
+const diffData = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] =>
+  [...new Set([...Object.keys(after), ...Object.keys(before)])].flatMap((key) =>
+    fieldChange(key, describeValue(before[key]), describeValue(after[key]))
+  );
+
+/**
+ * Fields that differ between two versions of a node.
+ * The position is left out, moving a node does not change the conversation.
+ */
+const diffNode = (before: CustomNode, after: CustomNode): FieldChange[] => {
+  if (before.type !== after.type) {
+    return fieldChange('Type', before.type || '', after.type || '');
+  }
+
+  switch (after.type) {
+    case NodeTypes.RICH_CARD: {
+      const old = before.data as RichCardData;
+      const current = after.data as RichCardData;
+      return [
+        ...diffCards(old, current, ''),
+        ...fieldChange('Note', old.note || '', current.note || ''),
+      ];
+    }
+    case NodeTypes.CAROUSEL_CARD: {
+      const old = before.data as CarouselCardData;
+      const current = after.data as CarouselCardData;
+      return [
+        ...diffCarousels(old, current),
+        ...fieldChange('Note', old.note || '', current.note || ''),
+      ];
+    }
+    case NodeTypes.TEXT_MESSAGE: {
+      const old = before.data as TextMessageData;
+      const current = after.data as TextMessageData;
+      return [
+        ...fieldChange('Message', old.text || '', current.text || ''),
+        ...diffActions(old.suggestions || [], current.suggestions || [], 'Suggestion'),
+      ];
+    }
+    default:
+      return diffData(before.data, after.data);
+  }
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const connects = (edge: Edge): string =>
+  [edge.source, edge.sourceHandle, edge.target, edge.targetHandle].join('|');
+
+/**
+ * Compare two versions of a flow: which nodes and edges were added, removed or
+ * changed, with the changed fields of each node
+ */
+export const diffFlows = (before: FlowState, after: FlowState): FlowDiff => {
+  const nodes = pairById(before.nodes, after.nodes).flatMap(
+    ({ before: old, after: current }): NodeDiff[] => {
+      if (!old || !current) {
+        const node = (current || old) as CustomNode;
+        return [
+          {
+            nodeId: node.id,
+            label: getNodeLabel(node),
+            status: current ? DiffStatuses.ADDED : DiffStatuses.REMOVED,
+            changes: [],
+          },
+        ];
+      }
+      const changes = diffNode(old, current).map((change) => ({
+        ...change,
+        field: capitalize(change.field),
+      }));
+      return changes.length > 0
+        ? [
+            {
+              nodeId: current.id,
+              label: getNodeLabel(current),
+              status: DiffStatuses.CHANGED,
+              changes,
+            },
+          ]
+        : [];
+    }
+  );
+
+  const labels = new Map(
+    [...before.nodes, ...after.nodes].map((node) => [node.id, getNodeLabel(node)])
+  );
+  const describeEdge = (edge: Edge): string =>
+    `${labels.get(edge.source) ?? edge.source} → ${labels.get(edge.target) ?? edge.target}`;
+
+  const edges = pairById(before.edges, after.edges).flatMap(
+    ({ before: old, after: current }): EdgeDiff[] => {
+      if (current && (!old || connects(old) !== connects(current))) {
+        return [
+          {
+            edgeId: current.id,
+            status: old ? DiffStatuses.CHANGED : DiffStatuses.ADDED,
+            label: describeEdge(current),
+          },
+        ];
+      }
+      if (old && !current) {
+        return [{ edgeId: old.id, status: DiffStatuses.REMOVED, label: describeEdge(old) }];
+      }
+      return [];
+    }
+  );
+
+  return { nodes, edges };
+};
@@ -0,0 +1,98 @@
+import { FlowDocument, FlowState } from '@/types/FlowTypes';
+import { copyNodes, pasteNodes } from './flowClipboard';
+import { toFlowDocument } from './flowSerialization';
+import { stripInlineImages } from './inlineImages';
+
+/**
+ * Ways an imported flow file can be taken over
+ */
+export enum ImportModes {
+  /** The file becomes the open flow */
+  REPLACE = 'replace',
+  /** The file is added next to the open flow */
+  MERGE = 'merge',
+}
+
+// Room between the open flow and nodes merged in from a file
+const MERGE_OFFSET_X = 400;
+
+/**
+ * Create the document of an exported flow file. Uploaded images are inlined,
+ * or replaced by a placeholder to keep the file small.
+ */
+export const toFlowFile = (
+  flowState: FlowState,
+  meta: FlowDocument['meta'],
+  includeImages: boolean
+): FlowDocument =>
+  toFlowDocument(
+    includeImages
+      ? flowState
+      : { ...flowState, nodes: stripInlineImages(flowState.nodes).nodes },
+    meta
+  );
+
+/**
+ * File name of an exported flow, e.g. "order-status.json"
+ */
+export const getFlowFileName = (flowName: string): string => {
+  const slug = flowName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'flow'}.json`;
+};
+
+/**
+ * Add an imported flow to the right of a flow. Every id of the imported flow is
+ * regenerated, so importing the same file twice gives two independent copies.
+ */
+export const mergeFlows = (flowState: FlowState, imported: FlowState): FlowState => {
+  if (imported.nodes.length === 0) return flowState;
+
+  const offsetX = flowState.nodes.reduce(
+    (maxX, node) => Math.max(maxX, node.position.x + MERGE_OFFSET_X),
+    0
+  );
+  const top = Math.min(...imported.nodes.map((node) => node.position.y));
+  const pasted = pasteNodes(copyNodes(imported.nodes, imported.edges), {
+    x: offsetX,
+    y: top,
+  });
+  // Pasted nodes keep the order of the imported ones
+  const nodeIds = new Map(
+    imported.nodes.map((node, index) => [node.id, pasted.nodes[index].id])
+  );
+
+  const stamp = Date.now();
+  const entryPoints = (imported.entryPoints || []).flatMap((entryPoint, index) => {
+    const nodeId = nodeIds.get(entryPoint.nodeId);
+    return nodeId ? [{ ...entryPoint, id: `entry-${stamp}-${index}`, nodeId }] : [];
+  });
+  const variables = flowState.variables || [];
+
+  return {
+    ...flowState,
+    nodes: [...flowState.nodes, ...pasted.nodes],
+    edges: [...flowState.edges, ...pasted.edges],
+    // Only take over the imported start when the flow has none yet
+    startNodeId:
+      flowState.startNodeId ??
+      (imported.startNodeId ? nodeIds.get(imported.startNodeId) : undefined),
+    entryPoints: [...(flowState.entryPoints || []), ...entryPoints],
+    // Variables the flow already has keep their sample values
+    variables: [
+      ...variables,
+      ...(imported.variables || [])
+        .filter((variable) => !variables.some((existing) => existing.name === variable.name))
+        .map((variable, index) => ({ ...variable, id: `var-${stamp}-${index}` })),
+    ],
+    mockResponses: [
+      ...(flowState.mockResponses || []),
+      ...(imported.mockResponses || []).map((mock, index) => ({
+        ...mock,
+        id: `mock-${stamp}-${index}`,
+      })),
+    ],
+  };
+};
@@ -0,0 +1,398 @@
+import { Edge } from '@xyflow/react';
+import {
+  CustomNode,
+  EntryPoint,
+  EntryPointTypes,
+  FlowDocument,
+  FlowState,
+  FlowVariable,
+  MockResponse,
+  NodeTypes,
+} from '@/types/FlowTypes';
+import {
+  ActionTypes,
+  ButtonData,
+  Condition,
+  ConditionOperators,
+  HttpMethods,
+  InputMatcher,
+  MatcherTypes,
+  ResponseMapping,
+  RichCardData,
+  WebhookHeader,
+} from '@/types/CardTypes';
+import { normalizeFlowActions } from './actions';
+
+/**
+ * Version of the stored flow format. Bump it together with a new migration
+ * whenever the shape of stored flows changes.
+ */
+export const FLOW_SCHEMA_VERSION = 2;
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Steps upgrading a document from the schema version of their key to the next one
+ */
+const MIGRATIONS: Record<number, (document: JsonObject) => JsonObject> = {
+  // Version 1 was a bare FlowState without a schema version,
+  // with buttons saved before actions had types
+  1: (document) =>
+    Array.isArray(document.nodes)
+      ? (normalizeFlowActions(document as unknown as FlowState) as unknown as JsonObject)
+      : document,
+};
+
+/**
+ * A flow read from storage or a file, upgraded and checked
+ */
+export interface LoadedFlow {
+  flowState: FlowState;
+  meta?: FlowDocument['meta'];
+}
+
+// Messages name where the problem is, e.g. 'Node "welcome", action 2 has no id.'
+const fail = (where: string, problem: string): never => {
+  throw new Error(`${where} ${problem}.`);
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, where: string): JsonObject =>
+  isObject(value) ? value : fail(where, 'is not an object');
+
+// Missing lists are empty
+const readList = (object: JsonObject, key: string, where: string): unknown[] => {
+  const value = object[key];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : fail(`${where} ${key}`, 'is not a list');
+};
+
+// Missing text is empty
+const readText = (object: JsonObject, key: string, where: string): string => {
+  const value = object[key];
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : fail(`${where} ${key}`, 'is not text');
+};
+
+const readOptionalText = (
+  object: JsonObject,
+  key: string,
+  where: string
+): string | undefined =>
+  object[key] === undefined ? undefined : readText(object, key, where);
+
+const readId = (object: JsonObject, where: string): string => {
+  const value = object.id;
+  return typeof value === 'string' && value !== '' ? value : fail(where, 'has no id');
+};
+
+const readNumber = (object: JsonObject, key: string, where: string): number => {
+  const value = object[key];
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : fail(`${where} ${key}`, 'is not a number');
+};
+
+const readEnum = <T extends string>(
+  object: JsonObject,
+  key: string,
+  values: Record<string, T>,
+  where: string
+): T => {
+  const value = object[key];
+  return Object.values(values).includes(value as T)
+    ? (value as T)
+    : fail(where, `has an unknown ${key} "${String(value)}"`);
+};
+
+// Read each item of a list, numbering the items from 1 in messages
+const readItems = <T>(
+  object: JsonObject,
+  key: string,
+  where: string,
+  itemName: string,
+  read: (item: JsonObject, itemWhere: string) => T
+): T[] =>
+  readList(object, key, where).map((item, index) => {
+    const itemWhere = `${where}, ${itemName} ${index + 1}`;
+    return read(readObject(item, itemWhere), itemWhere);
+  });
+
+// Only known fields are copied, anything else in the data is left behind
+const readAction = (action: JsonObject, where: string): ButtonData => {
+  const base = {
+    id: readId(action, where),
+    label: readText(action, 'label', where),
+    type: readOptionalText(action, 'type', where),
+    title: readOptionalText(action, 'title', where),
+  };
+  const type = readEnum(action, 'action', ActionTypes, where);
+
+  switch (type) {
+    case ActionTypes.OPEN_URL:
+      return { ...base, action: type, url: readText(action, 'url', where) };
+    case ActionTypes.DIAL:
+      return { ...base, action: type, phoneNumber: readText(action, 'phoneNumber', where) };
+    case ActionTypes.VIEW_LOCATION:
+      return {
+        ...base,
+        action: type,
+        latitude: readText(action, 'latitude', where),
+        longitude: readText(action, 'longitude', where),
+        locationLabel: readOptionalText(action, 'locationLabel', where),
+      };
+    case ActionTypes.CREATE_CALENDAR_EVENT:
+      return {
+        ...base,
+        action: type,
+        startTime: readText(action, 'startTime', where),
+        endTime: readText(action, 'endTime', where),
+        eventTitle: readText(action, 'eventTitle', where),
+        eventDescription: readOptionalText(action, 'eventDescription', where),
+      };
+    case ActionTypes.POSTBACK:
+      return { ...base, action: type, postbackData: readText(action, 'postbackData', where) };
+    case ActionTypes.REPLY:
+    case ActionTypes.SHARE_LOCATION:
+      return { ...base, action: type };
+  }
+};
+
+const readCard = (card: JsonObject, where: string): RichCardData => ({
+  id: readId(card, where),
+  title: readText(card, 'title', where),
+  description: readText(card, 'description', where),
+  imageUrl: readText(card, 'imageUrl', where),
+  buttons: readItems(card, 'buttons', where, 'action', readAction),
+  note: readOptionalText(card, 'note', where),
+});
+
+const readMatcher = (matcher: JsonObject, where: string): InputMatcher => ({
+  id: readId(matcher, where),
+  type: readEnum(matcher, 'type', MatcherTypes, where),
+  value: readText(matcher, 'value', where),
+});
+
+const readCondition = (condition: JsonObject, where: string): Condition => ({
+  id: readId(condition, where),
+  variable: readText(condition, 'variable', where),
+  operator: readEnum(condition, 'operator', ConditionOperators, where),
+  value: readText(condition, 'value', where),
+});
+
+const readHeader = (header: JsonObject, where: string): WebhookHeader => ({
+  id: readId(header, where),
+  name: readText(header, 'name', where),
+  value: readText(header, 'value', where),
+});
+
+const readMapping = (mapping: JsonObject, where: string): ResponseMapping => ({
+  id: readId(mapping, where),
+  path: readText(mapping, 'path', where),
+  variable: readText(mapping, 'variable', where),
+});
+
+// The data of a node repeats its id, nodes missing it get the id of the node
+const readNodeData = (
+  type: NodeTypes,
+  data: JsonObject,
+  nodeId: string,
+  where: string
+): CustomNode['data'] => {
+  const id = readText(data, 'id', where) || nodeId;
+  switch (type) {
+    case NodeTypes.RICH_CARD:
+      return readCard({ ...data, id }, where);
+    case NodeTypes.CAROUSEL_CARD:
+      return {
+        cards: readItems(data, 'cards', where, 'card', readCard),
+        note: readOptionalText(data, 'note', where),
+      };
+    case NodeTypes.TEXT_MESSAGE:
+      return {
+        id,
+        text: readText(data, 'text', where),
+        suggestions: readItems(data, 'suggestions', where, 'suggestion', readAction),
+      };
+    case NodeTypes.USER_INPUT:
+      return {
+        id,
+        matchers: readItems(data, 'matchers', where, 'matcher', readMatcher),
+        saveAs: readOptionalText(data, 'saveAs', where),
+      };
+    case NodeTypes.CONDITION:
+      return {
+        id,
+        conditions: readItems(data, 'conditions', where, 'condition', readCondition),
+      };
+    case NodeTypes.WEBHOOK:
+      return {
+        id,
+        method: readEnum(data, 'method', HttpMethods, where),
+        url: readText(data, 'url', where),
+        headers: readItems(data, 'headers', where, 'header', readHeader),
+        body: readText(data, 'body', where),
+        responseMappings: readItems(data, 'responseMappings', where, 'mapping', readMapping),
+      };
+  }
+};
+
+const readNode = (node: JsonObject, where: string): CustomNode => {
+  const id = readId(node, where);
+  const nodeWhere = `Node "${id}"`;
+  const type = readEnum(node, 'type', NodeTypes, nodeWhere);
+  const position = readObject(node.position, `${nodeWhere} position`);
+  const read = {
+    id,
+    type,
+    position: {
+      x: readNumber(position, 'x', `${nodeWhere} position`),
+      y: readNumber(position, 'y', `${nodeWhere} position`),
+    },
+    data: readNodeData(type, readObject(node.data, `${nodeWhere} data`), id, nodeWhere),
+  } as CustomNode;
+  // Locked nodes are stored as not draggable
+  if (node.draggable === false) {
+    read.draggable = false;
+  }
+  return read;
+};
+
+const readHandle = (
+  edge: JsonObject,
+  key: string,
+  where: string
+): string | null | undefined => {
+  const value = edge[key];
+  return value === undefined || value === null ? value : readText(edge, key, where);
+};
+
+// Connections to missing nodes are kept, the flow checks report them
+const readEdge = (edge: JsonObject, where: string): Edge => {
+  const id = readId(edge, where);
+  const edgeWhere = `Connection "${id}"`;
+  return {
+    id,
+    source: readText(edge, 'source', edgeWhere),
+    target: readText(edge, 'target', edgeWhere),
+    sourceHandle: readHandle(edge, 'sourceHandle', edgeWhere),
+    targetHandle: readHandle(edge, 'targetHandle', edgeWhere),
+  };
+};
+
+const readEntryPoint = (entryPoint: JsonObject, where: string): EntryPoint => ({
+  id: readId(entryPoint, where),
+  type: readEnum(entryPoint, 'type', EntryPointTypes, where),
+  value: readText(entryPoint, 'value', where),
+  nodeId: readText(entryPoint, 'nodeId', where),
+});
+
+const readVariable = (variable: JsonObject, where: string): FlowVariable => ({
+  id: readId(variable, where),
+  name: readText(variable, 'name', where),
+  sampleValue: readText(variable, 'sampleValue', where),
+});
+
+const readMockResponse = (mock: JsonObject, where: string): MockResponse => ({
+  id: readId(mock, where),
+  method: readEnum(mock, 'method', HttpMethods, where),
+  url: readText(mock, 'url', where),
+  status: readNumber(mock, 'status', where),
+  body: readText(mock, 'body', where),
+});
+
+/**
+ * Upgrade a document to the current schema version, one migration at a time
+ */
+const migrateDocument = (document: JsonObject): JsonObject => {
+  const version = document.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return fail('The flow', `has an unknown schema version "${String(version)}"`);
+  }
+  if (version > FLOW_SCHEMA_VERSION) {
+    return fail(
+      'The flow',
+      `was saved by a newer version of the builder (schema version ${version}), update the app to open it`
+    );
+  }
+
+  let migrated = document;
+  for (let from = version; from < FLOW_SCHEMA_VERSION; from++) {
+    try {
+      migrated = { ...MIGRATIONS[from](migrated), schemaVersion: from + 1 };
+    } catch (error) {
+      return fail(
+        'The flow',
+        `could not be upgraded from schema version ${from}: ${(error as Error).message}`
+      );
+    }
+  }
+  return migrated;
+};
+
+/**
+ * Read a stored or imported flow: migrate it to the current schema version and
+ * check every node, connection and setting. Throws an error naming the first
+ * problem, so corrupt data is reported instead of opening as an empty canvas.
+ */
+export const readFlowDocument = (value: unknown): LoadedFlow => {
+  const document = migrateDocument(readObject(value, 'The flow'));
+  if (!Array.isArray(document.nodes) || !Array.isArray(document.edges)) {
+    return fail('The flow', 'has no list of nodes and connections');
+  }
+
+  const nodes = readItems(document, 'nodes', 'The flow', 'node', readNode);
+  const edges = readItems(document, 'edges', 'The flow', 'connection', readEdge);
+
+  const flowState: FlowState = { nodes, edges };
+  const startNodeId = readOptionalText(document, 'startNodeId', 'The flow');
+  if (startNodeId !== undefined) flowState.startNodeId = startNodeId;
+  if (document.entryPoints !== undefined) {
+    flowState.entryPoints = readItems(
+      document,
+      'entryPoints',
+      'The flow',
+      'entry point',
+      readEntryPoint
+    );
+  }
+  if (document.variables !== undefined) {
+    flowState.variables = readItems(document, 'variables', 'The flow', 'variable', readVariable);
+  }
+  if (document.mockResponses !== undefined) {
+    flowState.mockResponses = readItems(
+      document,
+      'mockResponses',
+      'The flow',
+      'mock response',
+      readMockResponse
+    );
+  }
+
+  if (document.meta === undefined) {
+    return { flowState };
+  }
+  const meta = readObject(document.meta, 'The flow meta');
+  return {
+    flowState,
+    meta: {
+      name: readText(meta, 'name', 'The flow meta'),
+      description: readText(meta, 'description', 'The flow meta'),
+    },
+  };
+};
+
+/**
+ * Read a flow from JSON text, see readFlowDocument
+ */
+export const parseFlowDocument = (json: string): LoadedFlow => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return fail('The flow', 'is not valid JSON');
+  }
+  return readFlowDocument(value);
+};
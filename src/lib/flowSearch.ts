@@ -0,0 +1,79 @@
+import { CustomNode, NodeTypes } from '@/types/FlowTypes';
+import {
+  ButtonData,
+  CarouselCardData,
+  RichCardData,
+  TextMessageData,
+} from '@/types/CardTypes';
+
+/**
+ * A text of a node that contains the search query
+ */
+export interface SearchMatch {
+  /** Unique per match, usable as a React key */
+  id: string;
+  nodeId: string;
+  /** Where in the node the text is, e.g. "Card 2 title" */
+  field: string;
+  text: string;
+}
+
+interface SearchField {
+  field: string;
+  text: string;
+}
+
+const getActionFields = (actions: ButtonData[], prefix: string): SearchField[] =>
+  actions.flatMap((action) => [
+    { field: `${prefix} title`, text: action.title || '' },
+    { field: `${prefix} label`, text: action.label || '' },
+  ]);
+
+const getCardFields = (card: RichCardData, prefix: string): SearchField[] => [
+  { field: `${prefix}title`, text: card.title || '' },
+  { field: `${prefix}description`, text: card.description || '' },
+  ...getActionFields(card.buttons || [], `${prefix}action`),
+];
+
+/**
+ * Texts of a node the search looks through
+ */
+const getSearchFields = (node: CustomNode): SearchField[] => {
+  switch (node.type) {
+    case NodeTypes.RICH_CARD:
+      return getCardFields(node.data as RichCardData, '');
+    case NodeTypes.CAROUSEL_CARD:
+      return ((node.data as CarouselCardData).cards || []).flatMap((card, index) =>
+        getCardFields(card, `Card ${index + 1} `)
+      );
+    case NodeTypes.TEXT_MESSAGE: {
+      const data = node.data as TextMessageData;
+      return [
+        { field: 'message', text: data.text || '' },
+        ...getActionFields(data.suggestions || [], 'suggestion'),
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Find the card, message and action texts that contain a query, ignoring case.
+ * Matches are listed in node order.
+ */
+export const searchFlow = (nodes: CustomNode[], query: string): SearchMatch[] => {
+  const needle = query.trim().toLowerCase();
+  if (needle === '') return [];
+
+  return nodes.flatMap((node) =>
+    getSearchFields(node)
+      .filter(({ text }) => text.toLowerCase().includes(needle))
+      .map(({ field, text }, index) => ({
+        id: `${node.id}-${index}`,
+        nodeId: node.id,
+        field: field.charAt(0).toUpperCase() + field.slice(1),
+        text,
+      }))
+  );
+};
@@ -0,0 +1,34 @@
+import { FlowDocument, FlowState } from '@/types/FlowTypes';
+import { FLOW_SCHEMA_VERSION } from './flowSchema';
+
+/**
+ * Drop selection and measurement state, which only matters on screen
+ */
+export const toStoredFlowState = (flowState: FlowState): FlowState => ({
+  ...flowState,
+  nodes: flowState.nodes.map((node) => ({
+    ...node,
+    selected: undefined,
+    dragging: undefined,
+    measured: undefined,
+  })),
+  edges: flowState.edges.map((edge) => ({ ...edge, selected: undefined })),
+});
+
+/**
+ * Wrap a flow in the versioned format it is stored and exported in
+ */
+export const toFlowDocument = (
+  flowState: FlowState,
+  meta?: FlowDocument['meta']
+): FlowDocument => ({
+  schemaVersion: FLOW_SCHEMA_VERSION,
+  ...(meta && { meta }),
+  ...toStoredFlowState(flowState),
+});
+
+/**
+ * Serialize a flow for storage, so two saves of the same content compare equal
+ */
+export const serializeFlowState = (flowState: FlowState): string =>
+  JSON.stringify(toFlowDocument(flowState));
@@ -0,0 +1,68 @@
+import { FlowStorage } from "@/types/StorageTypes";
+import { openIndexedDbStorage } from "./indexedDbStorage";
+import { localStorageAdapter } from "./localStorage";
+
+let storagePromise: Promise<FlowStorage> | null = null;
+
+/**
+ * Copy flows and their saved versions from localStorage, where earlier releases
+ * kept them, then remove them there
+ */
+const migrateFlows = async (from: FlowStorage, to: FlowStorage): Promise<void> => {
+  if ((await to.list()).length > 0) return;
+
+  const flows = await from.list();
+  for (const flow of flows) {
+    await to.saveMeta(flow);
+    const flowState = await from.load(flow.id);
+    if (flowState) {
+      await to.save(flow.id, flowState);
+      // Keep the original update time instead of the migration time
+      await to.saveMeta(flow);
+    }
+    for (const version of await from.listVersions(flow.id)) {
+      const versionState = await from.loadVersion(flow.id, version.id);
+      if (versionState) {
+        await to.saveVersion(version, versionState);
+      }
+    }
+  }
+  for (const flow of flows) {
+    await from.delete(flow.id);
+  }
+};
+
+/**
+ * Use IndexedDB where the browser allows it, localStorage otherwise
+ */
+const selectFlowStorage = async (): Promise<FlowStorage> => {
+  if (typeof indexedDB === 'undefined') {
+    return localStorageAdapter;
+  }
+
+  try {
+    const storage = await openIndexedDbStorage();
+    await migrateFlows(localStorageAdapter, storage);
+    return storage;
+  } catch (error) {
+    console.error('IndexedDB is unavailable, falling back to localStorage:', error);
+    return localStorageAdapter;
+  }
+};
+
+/**
+ * Get the storage adapter flows are persisted with
+ */
+export const getFlowStorage = (): Promise<FlowStorage> => {
+  if (!storagePromise) {
+    storagePromise = selectFlowStorage();
+  }
+  return storagePromise;
+};
+
+/**
+ * Replace the storage adapter, e.g. with a remote backend
+ */
+export const setFlowStorage = (storage: FlowStorage): void => {
+  storagePromise = Promise.resolve(storage);
+};
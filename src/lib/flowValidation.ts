@@ -0,0 +1,540 @@
+import { Edge } from '@xyflow/react';
+import {
+  CustomNode,
+  EntryPointTypes,
+  FlowState,
+  NodeTypes,
+} from '@/types/FlowTypes';
+import {
+  ButtonData,
+  CarouselCardData,
+  ConditionData,
+  ConditionOperators,
+  RichCardData,
+  TextMessageData,
+  UserInputData,
+  WebhookData,
+} from '@/types/CardTypes';
+import {
+  CONDITION_ELSE_HANDLE_ID,
+  WEBHOOK_ERROR_HANDLE_ID,
+  WEBHOOK_SUCCESS_HANDLE_ID,
+  actionHandleId,
+  conditionHandleId,
+  findEntryNode,
+  matcherHandleId,
+} from './simulator';
+import { parseNumber } from './conditions';
+import {
+  CARD_DESCRIPTION_MAX_LENGTH,
+  CARD_TITLE_MAX_LENGTH,
+  CAROUSEL_MAX_CARDS,
+  CAROUSEL_MIN_CARDS,
+  SUGGESTION_TEXT_MAX_LENGTH,
+  TEXT_MESSAGE_MAX_LENGTH,
+} from './rcsLimits';
+import { findPlaceholders, isValidVariableName } from './templating';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  /** Stable key of the issue */
+  id: string;
+  /** Errors make the flow fail when published, warnings are likely mistakes */
+  severity: IssueSeverity;
+  message: string;
+  /** Node the issue is about, if any */
+  nodeId?: string;
+  /** Edge the issue is about, if any */
+  edgeId?: string;
+}
+
+const hasOutgoingEdge = (edges: Edge[], nodeId: string, handleId: string): boolean =>
+  edges.some((edge) => edge.source === nodeId && edge.sourceHandle === handleId);
+
+/**
+ * Nodes reachable from the start node or an entry point by following edges
+ */
+const findReachableNodeIds = (flowState: FlowState): Set<string> => {
+  const entryNode = findEntryNode(flowState);
+  const reachable = new Set<string>();
+  const queue = [
+    ...(entryNode ? [entryNode.id] : []),
+    ...(flowState.entryPoints || []).map((entryPoint) => entryPoint.nodeId),
+  ];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string;
+    if (reachable.has(nodeId)) continue;
+    reachable.add(nodeId);
+    flowState.edges
+      .filter((edge) => edge.source === nodeId)
+      .forEach((edge) => queue.push(edge.target));
+  }
+  return reachable;
+};
+
+const validateActions = (
+  buttons: ButtonData[],
+  node: CustomNode,
+  edges: Edge[],
+  context: string
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  buttons.forEach((button) => {
+    const text = button.title || button.label;
+    if (text.length > SUGGESTION_TEXT_MAX_LENGTH) {
+      issues.push({
+        id: `suggestion-length-${node.id}-${button.id}`,
+        severity: 'error',
+        nodeId: node.id,
+        message: `${context}: "${text}" is ${text.length} characters, suggestions allow ${SUGGESTION_TEXT_MAX_LENGTH}`,
+      });
+    }
+    if (!hasOutgoingEdge(edges, node.id, actionHandleId(button.id))) {
+      issues.push({
+        id: `unconnected-action-${node.id}-${button.id}`,
+        severity: 'warning',
+        nodeId: node.id,
+        message: `${context}: "${text}" is not connected to a next step`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+const validateCard = (
+  card: RichCardData,
+  node: CustomNode,
+  edges: Edge[],
+  context: string
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const title = card.title || '';
+  const description = card.description || '';
+
+  if (title.trim() === '') {
+    issues.push({
+      id: `empty-title-${node.id}-${card.id}`,
+      severity: 'warning',
+      nodeId: node.id,
+      message: `${context} has no title`,
+    });
+  } else if (title.length > CARD_TITLE_MAX_LENGTH) {
+    issues.push({
+      id: `title-length-${node.id}-${card.id}`,
+      severity: 'error',
+      nodeId: node.id,
+      message: `${context} title is ${title.length} characters, cards allow ${CARD_TITLE_MAX_LENGTH}`,
+    });
+  }
+
+  if (description.trim() === '') {
+    issues.push({
+      id: `empty-description-${node.id}-${card.id}`,
+      severity: 'warning',
+      nodeId: node.id,
+      message: `${context} has no description`,
+    });
+  } else if (description.length > CARD_DESCRIPTION_MAX_LENGTH) {
+    issues.push({
+      id: `description-length-${node.id}-${card.id}`,
+      severity: 'error',
+      nodeId: node.id,
+      message: `${context} description is ${description.length} characters, cards allow ${CARD_DESCRIPTION_MAX_LENGTH}`,
+    });
+  }
+
+  return [...issues, ...validateActions(card.buttons || [], node, edges, context)];
+};
+
+// Text of a node that can hold placeholders
+const getTemplateTexts = (node: CustomNode): string[] => {
+  const buttonTitles = (buttons: ButtonData[] = []) =>
+    buttons.map((button) => button.title || '');
+  const cardTexts = (card: RichCardData) => [
+    card.title || '',
+    card.description || '',
+    ...buttonTitles(card.buttons),
+  ];
+
+  switch (node.type) {
+    case NodeTypes.TEXT_MESSAGE: {
+      const { text = '', suggestions } = node.data as TextMessageData;
+      return [text, ...buttonTitles(suggestions)];
+    }
+    case NodeTypes.CAROUSEL_CARD:
+      return ((node.data as CarouselCardData).cards || []).flatMap(cardTexts);
+    case NodeTypes.WEBHOOK: {
+      const { url = '', headers = [], body = '' } = node.data as WebhookData;
+      return [url, body, ...headers.map((header) => header.value)];
+    }
+    case NodeTypes.USER_INPUT:
+    case NodeTypes.CONDITION:
+      return [];
+    default:
+      return cardTexts(node.data as RichCardData);
+  }
+};
+
+const validateVariableUse = (
+  node: CustomNode,
+  variableNames: Set<string>
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const placeholders = new Set(getTemplateTexts(node).flatMap(findPlaceholders));
+
+  placeholders.forEach((name) => {
+    if (!variableNames.has(name)) {
+      issues.push({
+        id: `unknown-variable-${node.id}-${name}`,
+        severity: 'warning',
+        nodeId: node.id,
+        message: `{{${name}}} is not a variable of this flow`,
+      });
+    }
+  });
+
+  const { saveAs } = node.data as UserInputData;
+  if (node.type === NodeTypes.USER_INPUT && saveAs && !variableNames.has(saveAs)) {
+    issues.push({
+      id: `unknown-save-variable-${node.id}`,
+      severity: 'warning',
+      nodeId: node.id,
+      message: `The reply is saved as {{${saveAs}}}, which is not a variable of this flow`,
+    });
+  }
+
+  if (node.type === NodeTypes.CONDITION) {
+    const { conditions = [] } = node.data as ConditionData;
+    conditions.forEach((condition, index) => {
+      if (condition.variable && !variableNames.has(condition.variable)) {
+        issues.push({
+          id: `unknown-condition-variable-${node.id}-${condition.id}`,
+          severity: 'warning',
+          nodeId: node.id,
+          message: `Condition ${index + 1} checks {{${condition.variable}}}, which is not a variable of this flow`,
+        });
+      }
+    });
+  }
+
+  if (node.type === NodeTypes.WEBHOOK) {
+    const { responseMappings = [] } = node.data as WebhookData;
+    responseMappings.forEach((mapping) => {
+      if (mapping.variable && !variableNames.has(mapping.variable)) {
+        issues.push({
+          id: `unknown-mapping-variable-${node.id}-${mapping.id}`,
+          severity: 'warning',
+          nodeId: node.id,
+          message: `"${mapping.path}" is stored in {{${mapping.variable}}}, which is not a variable of this flow`,
+        });
+      }
+    });
+  }
+
+  return issues;
+};
+
+const validateWebhook = (node: CustomNode, edges: Edge[]): ValidationIssue[] => {
+  const { url = '', responseMappings = [] } = node.data as WebhookData;
+  const issues: ValidationIssue[] = [];
+
+  if (url.trim() === '') {
+    issues.push({
+      id: `webhook-url-${node.id}`,
+      severity: 'error',
+      nodeId: node.id,
+      message: 'API call has no URL',
+    });
+  }
+
+  responseMappings.forEach((mapping, index) => {
+    if (mapping.path.trim() === '' || !mapping.variable) {
+      issues.push({
+        id: `incomplete-mapping-${node.id}-${mapping.id}`,
+        severity: 'error',
+        nodeId: node.id,
+        message: `Response mapping ${index + 1} needs a path and a variable`,
+      });
+    }
+  });
+
+  if (!hasOutgoingEdge(edges, node.id, WEBHOOK_SUCCESS_HANDLE_ID)) {
+    issues.push({
+      id: `unconnected-success-${node.id}`,
+      severity: 'warning',
+      nodeId: node.id,
+      message: 'Success is not connected to a next step',
+    });
+  }
+  if (!hasOutgoingEdge(edges, node.id, WEBHOOK_ERROR_HANDLE_ID)) {
+    issues.push({
+      id: `unconnected-error-${node.id}`,
+      severity: 'warning',
+      nodeId: node.id,
+      message: 'Error is not connected to a next step',
+    });
+  }
+
+  return issues;
+};
+
+const validateConditions = (node: CustomNode, edges: Edge[]): ValidationIssue[] => {
+  const { conditions = [] } = node.data as ConditionData;
+  const issues: ValidationIssue[] = [];
+
+  conditions.forEach((condition, index) => {
+    const context = `Condition ${index + 1}`;
+    if (!condition.variable) {
+      issues.push({
+        id: `condition-variable-${node.id}-${condition.id}`,
+        severity: 'error',
+        nodeId: node.id,
+        message: `${context} has no variable to check`,
+      });
+    }
+    if (
+      condition.operator === ConditionOperators.GREATER_THAN &&
+      parseNumber(condition.value) === null
+    ) {
+      issues.push({
+        id: `condition-number-${node.id}-${condition.id}`,
+        severity: 'error',
+        nodeId: node.id,
+        message: `${context} compares with "${condition.value}", which is not a number`,
+      });
+    }
+    if (condition.operator === ConditionOperators.REGEX) {
+      try {
+        new RegExp(condition.value);
+      } catch {
+        issues.push({
+          id: `condition-regex-${node.id}-${condition.id}`,
+          severity: 'error',
+          nodeId: node.id,
+          message: `${context} has an invalid regex`,
+        });
+      }
+    }
+    if (!hasOutgoingEdge(edges, node.id, conditionHandleId(condition.id))) {
+      issues.push({
+        id: `unconnected-condition-${node.id}-${condition.id}`,
+        severity: 'warning',
+        nodeId: node.id,
+        message: `${context} is not connected to a next step`,
+      });
+    }
+  });
+
+  if (!hasOutgoingEdge(edges, node.id, CONDITION_ELSE_HANDLE_ID)) {
+    issues.push({
+      id: `unconnected-else-${node.id}`,
+      severity: 'warning',
+      nodeId: node.id,
+      message: 'Else is not connected to a next step',
+    });
+  }
+
+  return issues;
+};
+
+const validateNode = (node: CustomNode, edges: Edge[]): ValidationIssue[] => {
+  switch (node.type) {
+    case NodeTypes.TEXT_MESSAGE: {
+      const { text = '', suggestions = [] } = node.data as TextMessageData;
+      const issues: ValidationIssue[] = [];
+      if (text.trim() === '') {
+        issues.push({
+          id: `empty-text-${node.id}`,
+          severity: 'error',
+          nodeId: node.id,
+          message: 'Text message is empty',
+        });
+      } else if (text.length > TEXT_MESSAGE_MAX_LENGTH) {
+        issues.push({
+          id: `text-length-${node.id}`,
+          severity: 'error',
+          nodeId: node.id,
+          message: `Text message is ${text.length} characters, messages allow ${TEXT_MESSAGE_MAX_LENGTH}`,
+        });
+      }
+      return [...issues, ...validateActions(suggestions, node, edges, 'Suggestion')];
+    }
+
+    case NodeTypes.CAROUSEL_CARD: {
+      const cards = (node.data as CarouselCardData).cards || [];
+      const issues: ValidationIssue[] = [];
+      if (cards.length < CAROUSEL_MIN_CARDS || cards.length > CAROUSEL_MAX_CARDS) {
+        issues.push({
+          id: `carousel-size-${node.id}`,
+          severity: 'error',
+          nodeId: node.id,
+          message: `Carousel has ${cards.length} cards, carousels need ${CAROUSEL_MIN_CARDS} to ${CAROUSEL_MAX_CARDS}`,
+        });
+      }
+      cards.forEach((card, index) => {
+        issues.push(...validateCard(card, node, edges, `Carousel card ${index + 1}`));
+      });
+      return issues;
+    }
+
+    case NodeTypes.USER_INPUT: {
+      const { matchers = [] } = node.data as UserInputData;
+      return matchers
+        .filter((matcher) => !hasOutgoingEdge(edges, node.id, matcherHandleId(matcher.id)))
+        .map((matcher) => ({
+          id: `unconnected-matcher-${node.id}-${matcher.id}`,
+          severity: 'warning',
+          nodeId: node.id,
+          message: `Matcher ${matchers.indexOf(matcher) + 1} is not connected to a next step`,
+        }));
+    }
+
+    case NodeTypes.CONDITION:
+      return validateConditions(node, edges);
+
+    case NodeTypes.WEBHOOK:
+      return validateWebhook(node, edges);
+
+    default:
+      return validateCard(node.data as RichCardData, node, edges, 'Rich card');
+  }
+};
+
+const validateEntryPoints = (
+  flowState: FlowState,
+  nodeIds: Set<string>
+): ValidationIssue[] => {
+  const { startNodeId, entryPoints = [] } = flowState;
+  const issues: ValidationIssue[] = [];
+
+  if (startNodeId && !nodeIds.has(startNodeId)) {
+    issues.push({
+      id: 'missing-start-node',
+      severity: 'error',
+      message: 'The start node no longer exists, pick a new one under Entry points',
+    });
+  }
+
+  const seen = new Set<string>();
+  entryPoints.forEach((entryPoint) => {
+    const kind = entryPoint.type === EntryPointTypes.KEYWORD ? 'Keyword' : 'Deep link';
+    const value = entryPoint.value.trim();
+    if (value === '') {
+      issues.push({
+        id: `empty-entry-point-${entryPoint.id}`,
+        severity: 'error',
+        nodeId: nodeIds.has(entryPoint.nodeId) ? entryPoint.nodeId : undefined,
+        message: `${kind} entry point has no ${
+          entryPoint.type === EntryPointTypes.KEYWORD ? 'keyword' : 'payload'
+        }`,
+      });
+    }
+    if (!nodeIds.has(entryPoint.nodeId)) {
+      issues.push({
+        id: `missing-entry-node-${entryPoint.id}`,
+        severity: 'error',
+        message: `${kind} entry point "${value}" opens a node that no longer exists`,
+      });
+    } else if (value !== '') {
+      const key = `${entryPoint.type}:${value.toLowerCase()}`;
+      if (seen.has(key)) {
+        issues.push({
+          id: `duplicate-entry-point-${entryPoint.id}`,
+          severity: 'warning',
+          nodeId: entryPoint.nodeId,
+          message: `${kind} "${value}" is used by more than one entry point`,
+        });
+      }
+      seen.add(key);
+    }
+  });
+
+  return issues;
+};
+
+const validateVariables = (flowState: FlowState): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  (flowState.variables || []).forEach((variable) => {
+    if (!isValidVariableName(variable.name)) {
+      issues.push({
+        id: `invalid-variable-name-${variable.id}`,
+        severity: 'error',
+        message: `Variable name "${variable.name}" can only use letters, digits and underscores`,
+      });
+    } else if (seen.has(variable.name)) {
+      issues.push({
+        id: `duplicate-variable-${variable.id}`,
+        severity: 'error',
+        message: `More than one variable is named "${variable.name}"`,
+      });
+    }
+    seen.add(variable.name);
+  });
+
+  return issues;
+};
+
+const validateMockResponses = (flowState: FlowState): ValidationIssue[] =>
+  (flowState.mockResponses || []).flatMap((mock): ValidationIssue[] => {
+    try {
+      if (mock.body.trim() !== '') JSON.parse(mock.body);
+      return [];
+    } catch {
+      return [
+        {
+          id: `mock-body-${mock.id}`,
+          severity: 'warning',
+          message: `Mock response for ${mock.method} ${mock.url} is not valid JSON`,
+        },
+      ];
+    }
+  });
+
+/**
+ * Check a flow for problems that would break it or make parts of it unusable
+ */
+export const validateFlow = (flowState: FlowState): ValidationIssue[] => {
+  const { nodes, edges } = flowState;
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const variableNames = new Set(
+    (flowState.variables || []).map((variable) => variable.name)
+  );
+  const issues: ValidationIssue[] = [
+    ...validateEntryPoints(flowState, nodeIds),
+    ...validateVariables(flowState),
+    ...validateMockResponses(flowState),
+  ];
+
+  edges.forEach((edge) => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      issues.push({
+        id: `dangling-edge-${edge.id}`,
+        severity: 'error',
+        edgeId: edge.id,
+        nodeId: nodeIds.has(edge.source) ? edge.source : undefined,
+        message: 'Connection points to a node that no longer exists',
+      });
+    }
+  });
+
+  const reachable = findReachableNodeIds(flowState);
+  nodes.forEach((node) => {
+    if (!reachable.has(node.id)) {
+      issues.push({
+        id: `unreachable-${node.id}`,
+        severity: 'warning',
+        nodeId: node.id,
+        message: 'Node cannot be reached from the start of the conversation',
+      });
+    }
+    issues.push(...validateNode(node, edges), ...validateVariableUse(node, variableNames));
+  });
+
+  return issues;
+};
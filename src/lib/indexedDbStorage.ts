@@ -0,0 +1,312 @@
+import { FlowMeta, FlowState, FlowVersion } from "@/types/FlowTypes";
+import { FlowStorage } from "@/types/StorageTypes";
+import { serializeFlowState } from "./flowSerialization";
+import { parseFlowDocument } from "./flowSchema";
+
+const DB_NAME = 'chatbot-flow-builder';
+const DB_VERSION = 2;
+const FLOWS_STORE = 'flows';
+const STATES_STORE = 'states';
+const IMAGES_STORE = 'images';
+const VERSIONS_STORE = 'versions';
+const VERSIONS_BY_FLOW_INDEX = 'flowId';
+
+// Stored graphs reference images as "stored-image:<hash>" instead of inlining them
+const IMAGE_REF_PREFIX = 'stored-image:';
+const DATA_URL_PATTERN = /"(data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=]+)"/g;
+const IMAGE_REF_PATTERN = /"stored-image:([0-9a-f]+)"/g;
+
+// Versions keep their images inline, so they stay whole when the flow drops an image
+interface StoredVersion extends FlowVersion {
+  graph: string;
+}
+
+// Hashes of data URLs seen this session, so unchanged images are not hashed on every save
+const hashCache = new Map<string, string>();
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error || new Error('IndexedDB transaction was aborted'));
+  });
+
+/**
+ * Turn a failed IndexedDB write into an error the user can act on
+ */
+const toStorageError = (error: unknown): Error =>
+  error instanceof DOMException && error.name === 'QuotaExceededError'
+    ? new Error('Browser storage is full. Remove large images or delete flows you no longer need.')
+    : new Error(`Could not write to IndexedDB: ${(error as Error).message}`);
+
+const imageKey = (flowId: string, hash: string): string => `${flowId}/${hash}`;
+
+// All image keys of a flow share its id as prefix
+const flowImagesRange = (flowId: string): IDBKeyRange =>
+  IDBKeyRange.bound(`${flowId}/`, `${flowId}/\uffff`);
+
+const hashDataUrl = async (dataUrl: string): Promise<string> => {
+  const cached = hashCache.get(dataUrl);
+  if (cached) return cached;
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUrl));
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  hashCache.set(dataUrl, hash);
+  return hash;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Split a serialized flow into a graph with image references and the images it references
+ */
+const extractImages = async (
+  serializedState: string
+): Promise<{ graph: string; images: Map<string, string> }> => {
+  const images = new Map<string, string>();
+  for (const [, dataUrl] of serializedState.matchAll(DATA_URL_PATTERN)) {
+    images.set(await hashDataUrl(dataUrl), dataUrl);
+  }
+
+  const graph = serializedState.replace(
+    DATA_URL_PATTERN,
+    (_, dataUrl: string) => `"${IMAGE_REF_PREFIX}${hashCache.get(dataUrl)}"`
+  );
+  return { graph, images };
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(FLOWS_STORE, { keyPath: 'id' });
+        db.createObjectStore(STATES_STORE);
+        db.createObjectStore(IMAGES_STORE);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' }).createIndex(
+          VERSIONS_BY_FLOW_INDEX,
+          'flowId'
+        );
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const loadVersionRecords = async (
+  db: IDBDatabase,
+  flowId: string
+): Promise<StoredVersion[]> => {
+  const index = db
+    .transaction(VERSIONS_STORE)
+    .objectStore(VERSIONS_STORE)
+    .index(VERSIONS_BY_FLOW_INDEX);
+  return requestResult<StoredVersion[]>(index.getAll(flowId));
+};
+
+/**
+ * Write the graph of a flow and its new images, and delete the images it no longer uses.
+ * Flows that are no longer in the library are not saved.
+ */
+const writeFlowState = async (
+  db: IDBDatabase,
+  flowId: string,
+  flowState: FlowState
+): Promise<void> => {
+  try {
+    const { graph, images } = await extractImages(serializeFlowState(flowState));
+
+    const reading = db.transaction([FLOWS_STORE, STATES_STORE, IMAGES_STORE]);
+    const flowRequest = reading.objectStore(FLOWS_STORE).get(flowId);
+    const graphRequest = reading.objectStore(STATES_STORE).get(flowId);
+    const keysRequest = reading
+      .objectStore(IMAGES_STORE)
+      .getAllKeys(flowImagesRange(flowId));
+    await transactionDone(reading);
+
+    if (!flowRequest.result || graphRequest.result === graph) {
+      return;
+    }
+
+    // Blobs are created before writing, a transaction closes while awaiting anything else
+    const storedKeys = new Set(keysRequest.result.map(String));
+    const newImages = await Promise.all(
+      [...images]
+        .filter(([hash]) => !storedKeys.has(imageKey(flowId, hash)))
+        .map(async ([hash, dataUrl]) => ({
+          key: imageKey(flowId, hash),
+          blob: await (await fetch(dataUrl)).blob(),
+        }))
+    );
+
+    const writing = db.transaction([FLOWS_STORE, STATES_STORE, IMAGES_STORE], 'readwrite');
+    const imagesStore = writing.objectStore(IMAGES_STORE);
+    newImages.forEach(({ key, blob }) => imagesStore.put(blob, key));
+    storedKeys.forEach((key) => {
+      if (!images.has(key.slice(flowId.length + 1))) {
+        imagesStore.delete(key);
+      }
+    });
+    writing.objectStore(STATES_STORE).put(graph, flowId);
+    // Read the entry again, it may have been renamed meanwhile
+    const flowsStore = writing.objectStore(FLOWS_STORE);
+    const currentFlowRequest = flowsStore.get(flowId);
+    currentFlowRequest.onsuccess = () => {
+      if (currentFlowRequest.result) {
+        flowsStore.put({
+          ...currentFlowRequest.result,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+    };
+    await transactionDone(writing);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+};
+
+/**
+ * Open the IndexedDB storage adapter. The graph of each flow is stored apart
+ * from its images, which are kept once per flow as blobs.
+ */
+export const openIndexedDbStorage = async (): Promise<FlowStorage> => {
+  const db = await openDatabase();
+  // Last save of each flow, the next one waits for it
+  const runningSaves = new Map<string, Promise<void>>();
+
+  return {
+    name: 'IndexedDB',
+
+    list: async () => {
+      const store = db.transaction(FLOWS_STORE).objectStore(FLOWS_STORE);
+      const flows = await requestResult<FlowMeta[]>(store.getAll());
+      return flows.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    saveMeta: async (flow) => {
+      try {
+        const transaction = db.transaction(FLOWS_STORE, 'readwrite');
+        transaction.objectStore(FLOWS_STORE).put(flow);
+        await transactionDone(transaction);
+      } catch (error) {
+        throw toStorageError(error);
+      }
+    },
+
+    load: async (flowId) => {
+      const transaction = db.transaction([STATES_STORE, IMAGES_STORE]);
+      const graphRequest = transaction.objectStore(STATES_STORE).get(flowId);
+      const imagesStore = transaction.objectStore(IMAGES_STORE);
+      const keysRequest = imagesStore.getAllKeys(flowImagesRange(flowId));
+      const blobsRequest = imagesStore.getAll(flowImagesRange(flowId));
+      await transactionDone(transaction);
+
+      const graph = graphRequest.result as string | undefined;
+      if (graph === undefined) {
+        return null;
+      }
+
+      const dataUrls = new Map<string, string>();
+      const blobs = blobsRequest.result as Blob[];
+      for (const [index, key] of keysRequest.result.entries()) {
+        const hash = String(key).slice(flowId.length + 1);
+        const dataUrl = await blobToDataUrl(blobs[index]);
+        hashCache.set(dataUrl, hash);
+        dataUrls.set(hash, dataUrl);
+      }
+
+      const serializedState = graph.replace(
+        IMAGE_REF_PATTERN,
+        (ref, hash: string) => (dataUrls.has(hash) ? `"${dataUrls.get(hash)}"` : ref)
+      );
+      return parseFlowDocument(serializedState).flowState;
+    },
+
+    // One save per flow at a time, an overlapping save could delete images the other one uses
+    save: (flowId, flowState) => {
+      const saving = (runningSaves.get(flowId) ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => writeFlowState(db, flowId, flowState));
+      runningSaves.set(flowId, saving);
+      saving
+        .catch(() => undefined)
+        .finally(() => {
+          if (runningSaves.get(flowId) === saving) {
+            runningSaves.delete(flowId);
+          }
+        });
+      return saving;
+    },
+
+    delete: async (flowId) => {
+      const versionIds = (await loadVersionRecords(db, flowId)).map((version) => version.id);
+      const transaction = db.transaction(
+        [FLOWS_STORE, STATES_STORE, IMAGES_STORE, VERSIONS_STORE],
+        'readwrite'
+      );
+      transaction.objectStore(FLOWS_STORE).delete(flowId);
+      transaction.objectStore(STATES_STORE).delete(flowId);
+      transaction.objectStore(IMAGES_STORE).delete(flowImagesRange(flowId));
+      const versionsStore = transaction.objectStore(VERSIONS_STORE);
+      versionIds.forEach((versionId) => versionsStore.delete(versionId));
+      await transactionDone(transaction);
+    },
+
+    listVersions: async (flowId) => {
+      const versions = await loadVersionRecords(db, flowId);
+      return versions
+        .map(({ id, label, createdAt }) => ({ id, flowId, label, createdAt }))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    saveVersion: async (version, flowState) => {
+      try {
+        const transaction = db.transaction(VERSIONS_STORE, 'readwrite');
+        const record: StoredVersion = { ...version, graph: serializeFlowState(flowState) };
+        transaction.objectStore(VERSIONS_STORE).add(record);
+        await transactionDone(transaction);
+      } catch (error) {
+        throw toStorageError(error);
+      }
+    },
+
+    loadVersion: async (flowId, versionId) => {
+      const store = db.transaction(VERSIONS_STORE).objectStore(VERSIONS_STORE);
+      const version = await requestResult<StoredVersion | undefined>(store.get(versionId));
+      if (!version || version.flowId !== flowId) {
+        return null;
+      }
+      return parseFlowDocument(version.graph).flowState;
+    },
+
+    deleteVersion: async (flowId, versionId) => {
+      const transaction = db.transaction(VERSIONS_STORE, 'readwrite');
+      const store = transaction.objectStore(VERSIONS_STORE);
+      const request = store.get(versionId);
+      request.onsuccess = () => {
+        if ((request.result as StoredVersion | undefined)?.flowId === flowId) {
+          store.delete(versionId);
+        }
+      };
+      await transactionDone(transaction);
+    },
+  };
+};
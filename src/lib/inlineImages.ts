@@ -0,0 +1,56 @@
+import { CustomNode, NodeTypes } from '@/types/FlowTypes';
+import { CarouselCardData, RichCardData } from '@/types/CardTypes';
+
+/**
+ * Shown instead of uploaded images left out of share links and exported files
+ */
+export const IMAGE_PLACEHOLDER =
+  'data:image/svg+xml,' +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="320" height="160">' +
+      '<rect width="100%" height="100%" fill="#e5e7eb"/>' +
+      '<text x="50%" y="50%" fill="#6b7280" font-family="sans-serif" font-size="14" ' +
+      'text-anchor="middle" dominant-baseline="middle">Image not included</text>' +
+      '</svg>'
+  );
+
+const isInlineImage = (url: string | undefined): boolean =>
+  !!url && url.startsWith('data:') && url !== IMAGE_PLACEHOLDER;
+
+const stripCardImage = (card: RichCardData): RichCardData =>
+  isInlineImage(card.imageUrl)
+    ? { ...card, imageUrl: IMAGE_PLACEHOLDER }
+    : card;
+
+const countCardImages = (cards: RichCardData[]): number =>
+  cards.filter((card) => isInlineImage(card.imageUrl)).length;
+
+/**
+ * Replace uploaded (inline) card images with a placeholder,
+ * images with a public URL are kept
+ */
+export const stripInlineImages = (
+  nodes: CustomNode[]
+): { nodes: CustomNode[]; strippedImages: number } => {
+  let strippedImages = 0;
+  const stripped = nodes.map((node) => {
+    switch (node.type) {
+      case NodeTypes.RICH_CARD: {
+        const data = node.data as RichCardData;
+        strippedImages += countCardImages([data]);
+        return { ...node, data: stripCardImage(data) } as CustomNode;
+      }
+      case NodeTypes.CAROUSEL_CARD: {
+        const cards = (node.data as CarouselCardData).cards || [];
+        strippedImages += countCardImages(cards);
+        return {
+          ...node,
+          data: { ...node.data, cards: cards.map(stripCardImage) },
+        } as CustomNode;
+      }
+      default:
+        return node;
+    }
+  });
+  return { nodes: stripped, strippedImages };
+};
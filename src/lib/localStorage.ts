@@ -1,42 +1,177 @@
-import { FlowState } from "@/types/FlowTypes";
+import { FlowDocument, FlowMeta, FlowVersion } from "@/types/FlowTypes";
+import { FlowStorage } from "@/types/StorageTypes";
+import { serializeFlowState, toFlowDocument } from "./flowSerialization";
+import { parseFlowDocument, readFlowDocument } from "./flowSchema";
 
-const FLOW_STATE_KEY = 'chatbot-flow-state';
+const FLOW_LIBRARY_KEY = 'chatbot-flow-library';
+const ACTIVE_FLOW_KEY = 'chatbot-active-flow';
+// Single flow stored before the library existed
+const LEGACY_FLOW_STATE_KEY = 'chatbot-flow-state';
+
+const flowStateKey = (flowId: string): string => `chatbot-flow-state:${flowId}`;
+const flowVersionsKey = (flowId: string): string => `chatbot-flow-versions:${flowId}`;
+
+// A version together with the snapshot it names
+interface StoredVersion extends FlowVersion {
+  flowState: FlowDocument;
+}
 
 /**
- * Save flow state to localStorage
+ * Turn a failed localStorage write into an error the user can act on
  */
-export const saveFlowState = (flowState: FlowState): void => {
+const toStorageError = (error: unknown): Error =>
+  error instanceof DOMException && error.name === 'QuotaExceededError'
+    ? new Error('Browser storage is full. Remove large images or delete flows you no longer need.')
+    : new Error(`Could not write to localStorage: ${(error as Error).message}`);
+
+const writeItem = (key: string, value: string): void => {
   try {
-    const serializedState = JSON.stringify(flowState);
-    localStorage.setItem(FLOW_STATE_KEY, serializedState);
+    localStorage.setItem(key, value);
   } catch (error) {
-    console.error('Error saving flow state to localStorage:', error);
+    throw toStorageError(error);
   }
 };
 
+const saveFlowLibrary = (flows: FlowMeta[]): void => {
+  writeItem(FLOW_LIBRARY_KEY, JSON.stringify(flows));
+};
+
 /**
- * Load flow state from localStorage
+ * Load the list of stored flows, moving a flow saved before the library existed into it
  */
-export const loadFlowState = (): FlowState | null => {
+const loadFlowLibrary = (): FlowMeta[] => {
+  const serializedLibrary = localStorage.getItem(FLOW_LIBRARY_KEY);
+  if (serializedLibrary !== null) {
+    return JSON.parse(serializedLibrary) as FlowMeta[];
+  }
+
+  const legacyState = localStorage.getItem(LEGACY_FLOW_STATE_KEY);
+  if (legacyState === null) {
+    return [];
+  }
+
+  const now = new Date().toISOString();
+  const migrated: FlowMeta = {
+    id: `flow-${Date.now()}`,
+    name: 'My flow',
+    description: '',
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeItem(flowStateKey(migrated.id), legacyState);
+  localStorage.removeItem(LEGACY_FLOW_STATE_KEY);
+  saveFlowLibrary([migrated]);
+  return [migrated];
+};
+
+const loadVersions = (flowId: string): StoredVersion[] => {
+  const serializedVersions = localStorage.getItem(flowVersionsKey(flowId));
+  return serializedVersions === null
+    ? []
+    : (JSON.parse(serializedVersions) as StoredVersion[]);
+};
+
+const saveVersions = (flowId: string, versions: StoredVersion[]): void => {
+  writeItem(flowVersionsKey(flowId), JSON.stringify(versions));
+};
+
+/**
+ * Save the id of the flow that is open
+ */
+export const saveActiveFlowId = (flowId: string): void => {
   try {
-    const serializedState = localStorage.getItem(FLOW_STATE_KEY);
-    if (serializedState === null) {
-      return null;
-    }
-    return JSON.parse(serializedState) as FlowState;
+    localStorage.setItem(ACTIVE_FLOW_KEY, flowId);
   } catch (error) {
-    console.error('Error loading flow state from localStorage:', error);
-    return null;
+    console.error('Error saving active flow to localStorage:', error);
   }
 };
 
 /**
- * Clear flow state from localStorage
+ * Load the id of the flow that was open last
  */
-export const clearFlowState = (): void => {
+export const loadActiveFlowId = (): string | null => {
   try {
-    localStorage.removeItem(FLOW_STATE_KEY);
+    return localStorage.getItem(ACTIVE_FLOW_KEY);
   } catch (error) {
-    console.error('Error clearing flow state from localStorage:', error);
+    console.error('Error loading active flow from localStorage:', error);
+    return null;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Storage adapter keeping the library and each flow as JSON in localStorage.
+ * Images stay inline as data URLs, so a few photos can hit the ~5MB quota.
+ */
+export const localStorageAdapter: FlowStorage = {
+  name: 'localStorage',
+
+  list: async () => loadFlowLibrary(),
+
+  saveMeta: async (flow) => {
+    const flows = loadFlowLibrary();
+    saveFlowLibrary(
+      flows.some((stored) => stored.id === flow.id)
+        ? flows.map((stored) => (stored.id === flow.id ? flow : stored))
+        : [...flows, flow]
+    );
+  },
+
+  load: async (flowId) => {
+    const serializedState = localStorage.getItem(flowStateKey(flowId));
+    if (serializedState === null) {
+      return null;
+    }
+    return parseFlowDocument(serializedState).flowState;
+  },
+
+  // Flows that are no longer in the library are not saved
+  save: async (flowId, flowState) => {
+    const flows = loadFlowLibrary();
+    const serializedState = serializeFlowState(flowState);
+    if (
+      !flows.some((flow) => flow.id === flowId) ||
+      localStorage.getItem(flowStateKey(flowId)) === serializedState
+    ) {
+      return;
+    }
+    writeItem(flowStateKey(flowId), serializedState);
+
+    const updatedAt = new Date().toISOString();
+    saveFlowLibrary(
+      flows.map((flow) => (flow.id === flowId ? { ...flow, updatedAt } : flow))
+    );
+  },
+
+  delete: async (flowId) => {
+    localStorage.removeItem(flowStateKey(flowId));
+    localStorage.removeItem(flowVersionsKey(flowId));
+    saveFlowLibrary(loadFlowLibrary().filter((flow) => flow.id !== flowId));
+  },
+
+  listVersions: async (flowId) =>
+    loadVersions(flowId).map(({ id, label, createdAt }) => ({
+      id,
+      flowId,
+      label,
+      createdAt,
+    })),
+
+  saveVersion: async (version, flowState) => {
+    saveVersions(version.flowId, [
+      ...loadVersions(version.flowId),
+      { ...version, flowState: toFlowDocument(flowState) },
+    ]);
+  },
+
+  loadVersion: async (flowId, versionId) => {
+    const version = loadVersions(flowId).find((stored) => stored.id === versionId);
+    return version ? readFlowDocument(version.flowState).flowState : null;
+  },
+
+  deleteVersion: async (flowId, versionId) => {
+    saveVersions(
+      flowId,
+      loadVersions(flowId).filter((version) => version.id !== versionId)
+    );
+  },
+};
@@ -0,0 +1,58 @@
+import { InputMatcher, MatcherTypes } from '@/types/CardTypes';
+
+/** Labels shown for each matcher type in the editor */
+export const MATCHER_TYPE_LABELS: Record<MatcherTypes, string> = {
+  [MatcherTypes.EXACT]: 'Exact',
+  [MatcherTypes.KEYWORD]: 'Keywords',
+  [MatcherTypes.REGEX]: 'Regex',
+  [MatcherTypes.FALLBACK]: 'Fallback',
+};
+
+/**
+ * Split a keyword matcher value into its keywords
+ */
+export const parseKeywords = (value: string): string[] =>
+  value
+    .split(',')
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter((keyword) => keyword.length > 0);
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Check whether a user reply satisfies a single matcher.
+ * Exact and keyword matching ignore case, keywords must appear as whole words.
+ */
+export const matchesInput = (matcher: InputMatcher, text: string): boolean => {
+  const input = text.trim();
+
+  switch (matcher.type) {
+    case MatcherTypes.EXACT:
+      return input.toLowerCase() === matcher.value.trim().toLowerCase();
+    case MatcherTypes.KEYWORD:
+      return parseKeywords(matcher.value).some((keyword) =>
+        new RegExp(`\\b${escapeRegex(keyword)}\\b`, 'i').test(input)
+      );
+    case MatcherTypes.REGEX:
+      try {
+        return new RegExp(matcher.value, 'i').test(input);
+      } catch {
+        // An invalid pattern never matches
+        return false;
+      }
+    case MatcherTypes.FALLBACK:
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Find the first matcher, in order, that a user reply satisfies
+ */
+export const findMatcher = (
+  matchers: InputMatcher[],
+  text: string
+): InputMatcher | null =>
+  matchers.find((matcher) => matchesInput(matcher, text)) ?? null;
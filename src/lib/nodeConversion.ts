@@ -0,0 +1,108 @@
+import { Edge } from '@xyflow/react';
+import { CarouselCardData, RichCardData } from '@/types/CardTypes';
+import { CustomNode, NodeTypes } from '@/types/FlowTypes';
+
+type HandleMap = (handleId: string | null | undefined) => string | null | undefined;
+
+/**
+ * Point the edges of a node at other handles of the same node
+ */
+const remapHandles = (
+  edges: Edge[],
+  nodeId: string,
+  mapSource: HandleMap,
+  mapTarget: HandleMap
+): Edge[] =>
+  edges.map((edge) => {
+    if (edge.source === nodeId) {
+      return { ...edge, sourceHandle: mapSource(edge.sourceHandle) };
+    }
+    if (edge.target === nodeId) {
+      return { ...edge, targetHandle: mapTarget(edge.targetHandle) };
+    }
+    return edge;
+  });
+
+/**
+ * Whether a node can be converted to another type without losing content.
+ * Rich cards become carousels, and a carousel with one card becomes a rich card.
+ */
+export const canConvertNodeType = (node: CustomNode, type: NodeTypes): boolean => {
+  if (node.type === NodeTypes.RICH_CARD) {
+    return type === NodeTypes.CAROUSEL_CARD;
+  }
+  if (node.type === NodeTypes.CAROUSEL_CARD) {
+    return (
+      type === NodeTypes.RICH_CARD &&
+      ((node.data as CarouselCardData).cards || []).length === 1
+    );
+  }
+  return false;
+};
+
+/**
+ * Convert a rich card into a carousel or back, keeping its content and connections.
+ * Actions keep their ids, so edges from them stay as they are, and edges on the
+ * card itself move to the matching handles of the new type. Only the note is
+ * carried over from the old data, the position lock is part of the node.
+ * A converted carousel has one card, the flow check asks for a second one.
+ */
+export const convertNodeType = (
+  node: CustomNode,
+  edges: Edge[],
+  type: NodeTypes
+): { node: CustomNode; edges: Edge[] } => {
+  if (!canConvertNodeType(node, type)) {
+    return { node, edges };
+  }
+
+  if (type === NodeTypes.CAROUSEL_CARD) {
+    const { title, description, imageUrl, buttons, note } = node.data as RichCardData;
+    const cardId = `${node.id}-card-${Date.now()}`;
+    const data: CarouselCardData = {
+      cards: [{ id: cardId, title, description, imageUrl, buttons }],
+    };
+    if (note) {
+      data.note = note;
+    }
+    return {
+      node: { ...node, type, data, measured: undefined },
+      edges: remapHandles(
+        edges,
+        node.id,
+        (handle) =>
+          handle === `node-${node.id}-right` || handle === `node-${node.id}-top`
+            ? `card-${cardId}-source`
+            : handle,
+        (handle) =>
+          handle === `node-${node.id}-left` ? `card-${cardId}-target` : handle
+      ),
+    };
+  }
+
+  const { cards, note } = node.data as CarouselCardData;
+  const [card] = cards;
+  const data: RichCardData = {
+    id: node.id,
+    title: card.title,
+    description: card.description,
+    imageUrl: card.imageUrl,
+    buttons: card.buttons || [],
+  };
+  if (note) {
+    data.note = note;
+  }
+  return {
+    node: { ...node, type, data, measured: undefined },
+    edges: remapHandles(
+      edges,
+      node.id,
+      (handle) => (handle === `card-${card.id}-source` ? `node-${node.id}-right` : handle),
+      // Rich cards have one target handle, actions can't be targeted on their own
+      (handle) =>
+        !handle || handle.startsWith('card-') || handle.endsWith('-target')
+          ? `node-${node.id}-left`
+          : handle
+    ),
+  };
+};
@@ -0,0 +1,31 @@
+import { CustomNode, NodeTypes } from '@/types/FlowTypes';
+import {
+  CarouselCardData,
+  RichCardData,
+  TextMessageData,
+  WebhookData,
+} from '@/types/CardTypes';
+
+/**
+ * Short name of a node, so the user can tell nodes apart in lists
+ */
+export const getNodeLabel = (node: CustomNode): string => {
+  switch (node.type) {
+    case NodeTypes.TEXT_MESSAGE:
+      return (node.data as TextMessageData).text || 'Text message';
+    case NodeTypes.CAROUSEL_CARD: {
+      const [first] = (node.data as CarouselCardData).cards || [];
+      return first?.title ? `Carousel: ${first.title}` : 'Carousel';
+    }
+    case NodeTypes.USER_INPUT:
+      return 'User input';
+    case NodeTypes.CONDITION:
+      return 'Condition';
+    case NodeTypes.WEBHOOK: {
+      const { method, url } = node.data as WebhookData;
+      return url ? `${method} ${url}` : 'API call';
+    }
+    default:
+      return (node.data as RichCardData).title || 'Rich card';
+  }
+};
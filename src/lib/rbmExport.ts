@@ -0,0 +1,308 @@
+import { Edge } from '@xyflow/react';
+import { FlowState, NodeTypes } from '@/types/FlowTypes';
+import {
+  ActionTypes,
+  ButtonData,
+  CarouselCardData,
+  ConditionData,
+  RichCardData,
+  TextMessageData,
+  UserInputData,
+  WebhookData,
+} from '@/types/CardTypes';
+import {
+  RbmCardContent,
+  RbmContentMessage,
+  RbmFlowBranch,
+  RbmFlowExport,
+  RbmFlowInput,
+  RbmFlowMessage,
+  RbmFlowWebhook,
+  RbmSuggestion,
+} from '@/types/RbmTypes';
+import {
+  CONDITION_ELSE_HANDLE_ID,
+  WEBHOOK_ERROR_HANDLE_ID,
+  WEBHOOK_SUCCESS_HANDLE_ID,
+  actionHandleId,
+  conditionHandleId,
+  findEntryNode,
+  getContinuationNodeId,
+  getNextNodeId,
+  matcherHandleId,
+} from './simulator';
+import { encodeActionPostback, encodePostbackAction } from './rbmPostback';
+import { METHODS_WITH_BODY } from './webhooks';
+
+/**
+ * RBM only accepts media that carriers can fetch,
+ * so inline (uploaded) images are left out of the export.
+ */
+const isPublicUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+/**
+ * RBM expects calendar times in RFC 3339 UTC, the editor stores local date-times
+ */
+const toIsoTime = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+/**
+ * Convert an action button into an RBM suggestion.
+ * The postback data is the id of the node the action leads to, or a marked
+ * value an import can decode, see rbmPostback.
+ */
+const toSuggestion = (
+  button: ButtonData,
+  nodeId: string,
+  edges: Edge[]
+): RbmSuggestion => {
+  const text = button.title || button.label;
+  const next = getNextNodeId(edges, nodeId, actionHandleId(button.id));
+  const postbackData = encodeActionPostback(button.id, next);
+
+  switch (button.action) {
+    case ActionTypes.OPEN_URL:
+      return { action: { text, postbackData, openUrlAction: { url: button.url } } };
+    case ActionTypes.DIAL:
+      return {
+        action: { text, postbackData, dialAction: { phoneNumber: button.phoneNumber } },
+      };
+    case ActionTypes.VIEW_LOCATION:
+      return {
+        action: {
+          text,
+          postbackData,
+          viewLocationAction: {
+            latLong: {
+              latitude: Number(button.latitude) || 0,
+              longitude: Number(button.longitude) || 0,
+            },
+            label: button.locationLabel || undefined,
+          },
+        },
+      };
+    case ActionTypes.SHARE_LOCATION:
+      return { action: { text, postbackData, shareLocationAction: {} } };
+    case ActionTypes.CREATE_CALENDAR_EVENT:
+      return {
+        action: {
+          text,
+          postbackData,
+          createCalendarEventAction: {
+            startTime: toIsoTime(button.startTime),
+            endTime: toIsoTime(button.endTime),
+            title: button.eventTitle || text,
+            description: button.eventDescription || undefined,
+          },
+        },
+      };
+    case ActionTypes.POSTBACK:
+      return {
+        reply: { text, postbackData: encodePostbackAction(next, button.postbackData) },
+      };
+    default:
+      return { reply: { text, postbackData } };
+  }
+};
+
+const toCardContent = (
+  card: RichCardData,
+  nodeId: string,
+  edges: Edge[]
+): RbmCardContent => {
+  const content: RbmCardContent = {
+    title: card.title,
+    description: card.description,
+  };
+
+  if (card.imageUrl && isPublicUrl(card.imageUrl)) {
+    content.media = {
+      height: 'MEDIUM',
+      contentInfo: { fileUrl: card.imageUrl },
+    };
+  }
+
+  const buttons = card.buttons || [];
+  if (buttons.length > 0) {
+    content.suggestions = buttons.map((button) =>
+      toSuggestion(button, nodeId, edges)
+    );
+  }
+
+  return content;
+};
+
+const toContentMessage = (
+  type: NodeTypes,
+  data: unknown,
+  nodeId: string,
+  edges: Edge[]
+): RbmContentMessage => {
+  if (type === NodeTypes.TEXT_MESSAGE) {
+    const { text, suggestions = [] } = data as TextMessageData;
+    const message: RbmContentMessage = { text };
+    if (suggestions.length > 0) {
+      message.suggestions = suggestions.map((suggestion) =>
+        toSuggestion(suggestion, nodeId, edges)
+      );
+    }
+    return message;
+  }
+
+  if (type === NodeTypes.CAROUSEL_CARD) {
+    const cardContents = ((data as CarouselCardData).cards || []).map((card) =>
+      toCardContent(card, nodeId, edges)
+    );
+
+    // A carousel needs at least two cards, a single one is sent standalone
+    if (cardContents.length > 1) {
+      return { richCard: { carouselCard: { cardWidth: 'MEDIUM', cardContents } } };
+    }
+    return {
+      richCard: {
+        standaloneCard: {
+          cardOrientation: 'VERTICAL',
+          cardContent: cardContents[0] ?? {},
+        },
+      },
+    };
+  }
+
+  return {
+    richCard: {
+      standaloneCard: {
+        cardOrientation: 'VERTICAL',
+        cardContent: toCardContent(data as RichCardData, nodeId, edges),
+      },
+    },
+  };
+};
+
+/**
+ * Convert a flow into RBM agent messages, one message per bot node.
+ * User input nodes are exported as inputs the agent has to match replies against,
+ * condition nodes as branches it takes on variable values, API call nodes as webhooks,
+ * and the start node and entry points tell the agent where conversations begin.
+ * Placeholders are kept in the text, the agent fills in the exported variables.
+ */
+export const exportToRbm = (flowState: FlowState): RbmFlowExport => {
+  const { nodes, edges } = flowState;
+  const messages: RbmFlowMessage[] = [];
+  const inputs: RbmFlowInput[] = [];
+  const branches: RbmFlowBranch[] = [];
+  const webhooks: RbmFlowWebhook[] = [];
+
+  nodes.forEach((node) => {
+    if (node.type === NodeTypes.USER_INPUT) {
+      const { matchers = [], saveAs } = node.data as UserInputData;
+      const input: RbmFlowInput = {
+        id: node.id,
+        matchers: matchers.map(({ id, type, value }) => ({
+          type,
+          value,
+          next: getNextNodeId(edges, node.id, matcherHandleId(id)) ?? undefined,
+        })),
+      };
+      if (saveAs) {
+        input.saveAs = saveAs;
+      }
+      inputs.push(input);
+      return;
+    }
+
+    if (node.type === NodeTypes.CONDITION) {
+      const { conditions = [] } = node.data as ConditionData;
+      branches.push({
+        id: node.id,
+        conditions: conditions.map(({ id, variable, operator, value }) => ({
+          variable,
+          operator,
+          value,
+          next: getNextNodeId(edges, node.id, conditionHandleId(id)) ?? undefined,
+        })),
+        else: getNextNodeId(edges, node.id, CONDITION_ELSE_HANDLE_ID) ?? undefined,
+      });
+      return;
+    }
+
+    if (node.type === NodeTypes.WEBHOOK) {
+      const { method, url, headers = [], body, responseMappings = [] } =
+        node.data as WebhookData;
+      const webhook: RbmFlowWebhook = {
+        id: node.id,
+        method,
+        url,
+        success: getNextNodeId(edges, node.id, WEBHOOK_SUCCESS_HANDLE_ID) ?? undefined,
+        error: getNextNodeId(edges, node.id, WEBHOOK_ERROR_HANDLE_ID) ?? undefined,
+      };
+      const namedHeaders = headers.filter((header) => header.name.trim() !== '');
+      if (namedHeaders.length > 0) {
+        webhook.headers = Object.fromEntries(
+          namedHeaders.map((header) => [header.name.trim(), header.value])
+        );
+      }
+      if (body && METHODS_WITH_BODY.includes(method)) {
+        webhook.body = body;
+      }
+      if (responseMappings.length > 0) {
+        webhook.responseMappings = responseMappings.map(({ path, variable }) => ({
+          path,
+          variable,
+        }));
+      }
+      webhooks.push(webhook);
+      return;
+    }
+
+    const message: RbmFlowMessage = {
+      id: node.id,
+      contentMessage: toContentMessage(node.type, node.data, node.id, edges),
+    };
+
+    const next = getContinuationNodeId(edges, node.id);
+    if (next) {
+      message.next = next;
+    }
+
+    messages.push(message);
+  });
+
+  const result: RbmFlowExport = { messages };
+  const startNode = findEntryNode(flowState);
+  if (startNode) {
+    result.startMessageId = startNode.id;
+  }
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const entryPoints = (flowState.entryPoints || []).filter(
+    (entryPoint) => entryPoint.value.trim() !== '' && nodeIds.has(entryPoint.nodeId)
+  );
+  if (entryPoints.length > 0) {
+    result.entryPoints = entryPoints.map(({ type, value, nodeId }) => ({
+      type,
+      value: value.trim(),
+      next: nodeId,
+    }));
+  }
+
+  const variables = flowState.variables || [];
+  if (variables.length > 0) {
+    result.variables = variables.map(({ name, sampleValue }) => ({
+      name,
+      sampleValue,
+    }));
+  }
+
+  if (inputs.length > 0) {
+    result.inputs = inputs;
+  }
+  if (branches.length > 0) {
+    result.branches = branches;
+  }
+  if (webhooks.length > 0) {
+    result.webhooks = webhooks;
+  }
+  return result;
+};
@@ -0,0 +1,674 @@
+import { Edge } from '@xyflow/react';
+import {
+  CustomNode,
+  EntryPoint,
+  EntryPointTypes,
+  FlowState,
+  FlowVariable,
+  NodeTypes,
+} from '@/types/FlowTypes';
+import {
+  ActionTypes,
+  ButtonData,
+  Condition,
+  ConditionOperators,
+  HttpMethods,
+  InputMatcher,
+  MatcherTypes,
+  RichCardData,
+} from '@/types/CardTypes';
+import {
+  RbmCardContent,
+  RbmContentMessage,
+  RbmFlowBranch,
+  RbmFlowEntryPoint,
+  RbmFlowInput,
+  RbmFlowVariable,
+  RbmFlowWebhook,
+  RbmSuggestion,
+} from '@/types/RbmTypes';
+import {
+  CONDITION_ELSE_HANDLE_ID,
+  WEBHOOK_ERROR_HANDLE_ID,
+  WEBHOOK_SUCCESS_HANDLE_ID,
+  actionHandleId,
+  conditionHandleId,
+  matcherHandleId,
+} from './simulator';
+import { decodePostback } from './rbmPostback';
+import { isValidVariableName } from './templating';
+
+/** Horizontal distance between imported nodes */
+const NODE_SPACING = 400;
+
+interface ParsedMessage {
+  /** Id the message had in the source JSON, used to resolve postback data */
+  sourceId?: string;
+  next?: string;
+  contentMessage: RbmContentMessage;
+}
+
+/**
+ * The editor stores calendar times as local date-times ("2025-05-01T14:30"),
+ * RBM sends them in RFC 3339 UTC
+ */
+const toLocalTime = (value: string): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const pad = (number: number) => String(number).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fields of each typed action, and whether they have to be there
+const ACTION_TEXT_FIELDS: Record<string, Record<string, boolean>> = {
+  openUrlAction: { url: true },
+  dialAction: { phoneNumber: true },
+  viewLocationAction: { label: false, query: false },
+  shareLocationAction: {},
+  createCalendarEventAction: {
+    startTime: true,
+    endTime: true,
+    title: true,
+    description: false,
+  },
+};
+
+/**
+ * Check the fields of a typed action, e.g.
+ * "Message 1, suggestion 2, dialAction has no phoneNumber."
+ */
+const checkTypedAction = (action: Record<string, unknown>, where: string): void => {
+  Object.entries(ACTION_TEXT_FIELDS).forEach(([type, fields]) => {
+    if (action[type] === undefined) return;
+    const typed = action[type];
+    if (!isObject(typed)) {
+      throw new Error(`${where}, ${type} is not an object.`);
+    }
+    Object.entries(fields).forEach(([field, isRequired]) => {
+      if (typed[field] === undefined && !isRequired) return;
+      if (typeof typed[field] !== 'string') {
+        throw new Error(
+          typed[field] === undefined
+            ? `${where}, ${type} has no ${field}.`
+            : `${where}, ${type} ${field} is not a string.`
+        );
+      }
+    });
+  });
+
+  const location = action.viewLocationAction;
+  if (isObject(location) && location.latLong !== undefined) {
+    const { latLong } = location;
+    if (
+      !isObject(latLong) ||
+      !Number.isFinite(latLong.latitude) ||
+      !Number.isFinite(latLong.longitude)
+    ) {
+      throw new Error(
+        `${where}, viewLocationAction latLong needs a numeric latitude and longitude.`
+      );
+    }
+  }
+};
+
+/**
+ * Check suggestions before they are read, naming where a bad one is,
+ * e.g. "Message 2, card 1, suggestion 3 has no reply or action."
+ */
+const checkSuggestions = (suggestions: unknown, where: string): void => {
+  if (suggestions === undefined) return;
+  if (!Array.isArray(suggestions)) {
+    throw new Error(`${where} has suggestions that are not a list.`);
+  }
+  suggestions.forEach((suggestion: unknown, index: number) => {
+    const suggestionWhere = `${where}, suggestion ${index + 1}`;
+    if (!isObject(suggestion)) {
+      throw new Error(`${suggestionWhere} is not an object.`);
+    }
+    const content = isObject(suggestion.reply)
+      ? suggestion.reply
+      : isObject(suggestion.action)
+        ? suggestion.action
+        : null;
+    if (!content) {
+      throw new Error(`${suggestionWhere} has no reply or action.`);
+    }
+    if (content.text !== undefined && typeof content.text !== 'string') {
+      throw new Error(`${suggestionWhere} has a text that is not a string.`);
+    }
+    if (content.postbackData !== undefined && typeof content.postbackData !== 'string') {
+      throw new Error(`${suggestionWhere} has postback data that is not a string.`);
+    }
+    if (content === suggestion.action) {
+      checkTypedAction(content, suggestionWhere);
+    }
+  });
+};
+
+/**
+ * Check a card before it is read, see checkSuggestions
+ */
+const checkCardContent = (content: unknown, where: string): void => {
+  if (!isObject(content)) {
+    throw new Error(`${where} has no card content.`);
+  }
+  ['title', 'description'].forEach((field) => {
+    if (content[field] !== undefined && typeof content[field] !== 'string') {
+      throw new Error(`${where} has a ${field} that is not a string.`);
+    }
+  });
+  if (content.media !== undefined) {
+    const { media } = content;
+    if (
+      !isObject(media) ||
+      !isObject(media.contentInfo) ||
+      typeof media.contentInfo.fileUrl !== 'string'
+    ) {
+      throw new Error(`${where} has media without a file URL.`);
+    }
+  }
+  checkSuggestions(content.suggestions, where);
+};
+
+/**
+ * Accept a single message or a list, each either an agent message
+ * (`{ contentMessage }`), a bare content message or an exported flow message.
+ */
+const parseMessages = (input: unknown): ParsedMessage[] => {
+  const list = isObject(input) && Array.isArray(input.messages)
+    ? input.messages
+    : Array.isArray(input)
+      ? input
+      : [input];
+
+  if (list.length === 0) {
+    throw new Error('The JSON does not contain any messages.');
+  }
+
+  return list.map((item: unknown, index: number) => {
+    if (!isObject(item)) {
+      throw new Error(`Message ${index + 1} is not an object.`);
+    }
+
+    const contentMessage = isObject(item.contentMessage)
+      ? item.contentMessage
+      : item;
+    const { richCard, text } = contentMessage;
+    const where = `Message ${index + 1}`;
+    const hasRichCard =
+      isObject(richCard) &&
+      (isObject(richCard.standaloneCard) || isObject(richCard.carouselCard));
+    if (!hasRichCard && typeof text !== 'string') {
+      throw new Error(
+        `${where} has no text or richCard. Only text, rich card and carousel messages can be imported.`
+      );
+    }
+
+    if (!hasRichCard) {
+      checkSuggestions(contentMessage.suggestions, where);
+    } else if (isObject(richCard.carouselCard)) {
+      const { cardContents } = richCard.carouselCard;
+      if (!Array.isArray(cardContents)) {
+        throw new Error(`${where} is a carousel without a list of cards.`);
+      }
+      cardContents.forEach((content: unknown, cardIndex: number) =>
+        checkCardContent(content, `${where}, card ${cardIndex + 1}`)
+      );
+    } else if (isObject(richCard.standaloneCard)) {
+      checkCardContent(richCard.standaloneCard.cardContent, where);
+    }
+
+    return {
+      sourceId: typeof item.id === 'string' ? item.id : undefined,
+      next: typeof item.next === 'string' ? item.next : undefined,
+      contentMessage: (hasRichCard
+        ? contentMessage
+        : { ...contentMessage, richCard: undefined }) as RbmContentMessage,
+    };
+  });
+};
+
+/**
+ * Check that every entry of a list is an object, e.g. "Input "ask", matcher 2 is not an object."
+ */
+const checkObjects = (list: unknown[], where: string, itemName: string): void => {
+  list.forEach((item, index) => {
+    if (!isObject(item)) {
+      throw new Error(`${where}, ${itemName} ${index + 1} is not an object.`);
+    }
+  });
+};
+
+/**
+ * Inputs of an exported conversation definition, if it has any
+ */
+const parseInputs = (input: unknown): RbmFlowInput[] => {
+  if (!isObject(input) || !Array.isArray(input.inputs)) {
+    return [];
+  }
+
+  const inputs = input.inputs.filter(
+    (item: unknown): item is RbmFlowInput =>
+      isObject(item) && typeof item.id === 'string' && Array.isArray(item.matchers)
+  );
+  inputs.forEach((item) => checkObjects(item.matchers, `Input "${item.id}"`, 'matcher'));
+  return inputs;
+};
+
+/**
+ * Branches of an exported conversation definition, if it has any
+ */
+const parseBranches = (input: unknown): RbmFlowBranch[] => {
+  if (!isObject(input) || !Array.isArray(input.branches)) {
+    return [];
+  }
+
+  const branches = input.branches.filter(
+    (item: unknown): item is RbmFlowBranch =>
+      isObject(item) && typeof item.id === 'string' && Array.isArray(item.conditions)
+  );
+  branches.forEach((item) =>
+    checkObjects(item.conditions, `Branch "${item.id}"`, 'condition')
+  );
+  return branches;
+};
+
+/**
+ * Webhooks of an exported conversation definition, if it has any
+ */
+const parseWebhooks = (input: unknown): RbmFlowWebhook[] => {
+  if (!isObject(input) || !Array.isArray(input.webhooks)) {
+    return [];
+  }
+
+  const webhooks = input.webhooks.filter(
+    (item: unknown): item is RbmFlowWebhook =>
+      isObject(item) && typeof item.id === 'string' && typeof item.url === 'string'
+  );
+  webhooks.forEach((item) => {
+    if (Array.isArray(item.responseMappings)) {
+      checkObjects(item.responseMappings, `Webhook "${item.id}"`, 'response mapping');
+    }
+  });
+  return webhooks;
+};
+
+/**
+ * Entry points of an exported conversation definition, if it has any
+ */
+const parseEntryPoints = (input: unknown): RbmFlowEntryPoint[] => {
+  if (!isObject(input) || !Array.isArray(input.entryPoints)) {
+    return [];
+  }
+
+  return input.entryPoints.filter(
+    (item: unknown): item is RbmFlowEntryPoint =>
+      isObject(item) &&
+      Object.values(EntryPointTypes).includes(item.type as EntryPointTypes) &&
+      typeof item.value === 'string' &&
+      typeof item.next === 'string'
+  );
+};
+
+/**
+ * Variables of an exported conversation definition, if it has any
+ */
+const parseVariables = (input: unknown): RbmFlowVariable[] => {
+  if (!isObject(input) || !Array.isArray(input.variables)) {
+    return [];
+  }
+
+  return input.variables.filter(
+    (item: unknown): item is RbmFlowVariable =>
+      isObject(item) && typeof item.name === 'string' && isValidVariableName(item.name)
+  );
+};
+
+const isMatcherType = (value: unknown): value is MatcherTypes =>
+  Object.values(MatcherTypes).includes(value as MatcherTypes);
+
+const isConditionOperator = (value: unknown): value is ConditionOperators =>
+  Object.values(ConditionOperators).includes(value as ConditionOperators);
+
+const isHttpMethod = (value: unknown): value is HttpMethods =>
+  Object.values(HttpMethods).includes(value as HttpMethods);
+
+/**
+ * Import RBM agent messages as flow nodes.
+ * Every message becomes a text, rich card or carousel node with fresh ids, and edges
+ * are rebuilt from suggestion postback data that names another imported message.
+ * Inputs of an exported conversation definition become user input nodes, its branches
+ * condition nodes and its webhooks API call nodes, and its start message and entry points are kept when they name an imported message.
+ * Its variables and the variables inputs store replies in are kept as well.
+ */
+export const importFromRbm = (input: unknown): FlowState => {
+  const messages = parseMessages(input);
+  const inputs = parseInputs(input);
+  const branches = parseBranches(input);
+  const webhooks = parseWebhooks(input);
+  const stamp = Date.now();
+  let buttonCount = 0;
+
+  // Node created for each message, and source message ids mapped to them
+  const planned = messages.map((message, index) => {
+    const { richCard } = message.contentMessage;
+    const type = !richCard
+      ? NodeTypes.TEXT_MESSAGE
+      : 'carouselCard' in richCard
+        ? NodeTypes.CAROUSEL_CARD
+        : NodeTypes.RICH_CARD;
+    return { id: `${type}-${stamp}-${index}`, type };
+  });
+  inputs.forEach((_, inputIndex) => {
+    const type = NodeTypes.USER_INPUT;
+    planned.push({ id: `${type}-${stamp}-${messages.length + inputIndex}`, type });
+  });
+  branches.forEach((_, branchIndex) => {
+    const type = NodeTypes.CONDITION;
+    const index = messages.length + inputs.length + branchIndex;
+    planned.push({ id: `${type}-${stamp}-${index}`, type });
+  });
+  webhooks.forEach((_, webhookIndex) => {
+    const type = NodeTypes.WEBHOOK;
+    const index = messages.length + inputs.length + branches.length + webhookIndex;
+    planned.push({ id: `${type}-${stamp}-${index}`, type });
+  });
+
+  const nodeIds = new Map<string, (typeof planned)[number]>();
+  messages.forEach((message, index) => {
+    if (message.sourceId) {
+      nodeIds.set(message.sourceId, planned[index]);
+    }
+  });
+  inputs.forEach((item, inputIndex) => {
+    nodeIds.set(item.id, planned[messages.length + inputIndex]);
+  });
+  branches.forEach((item, branchIndex) => {
+    nodeIds.set(item.id, planned[messages.length + inputs.length + branchIndex]);
+  });
+  webhooks.forEach((item, webhookIndex) => {
+    nodeIds.set(
+      item.id,
+      planned[messages.length + inputs.length + branches.length + webhookIndex]
+    );
+  });
+
+  const nodes: CustomNode[] = [];
+  const edges: Edge[] = [];
+
+  const connect = (source: string, sourceHandle: string, targetSourceId: string) => {
+    const target = nodeIds.get(targetSourceId);
+    if (!target) return;
+    edges.push({
+      id: `${source}-${sourceHandle}-to-${target.id}`,
+      source,
+      sourceHandle,
+      target: target.id,
+      // Carousels accept connections anywhere, other nodes on their left handle
+      targetHandle:
+        target.type === NodeTypes.CAROUSEL_CARD ? undefined : `node-${target.id}-left`,
+    });
+  };
+
+  const toButton = (suggestion: RbmSuggestion, nodeId: string): ButtonData => {
+    const id = `action-${stamp}-${buttonCount++}`;
+
+    if ('reply' in suggestion) {
+      const { text } = suggestion.reply;
+      const base = { id, label: text, title: text, type: 'action' };
+      const { target, postbackData } = decodePostback(suggestion.reply.postbackData);
+      const isConnected = target !== undefined && nodeIds.has(target);
+      if (isConnected) {
+        connect(nodeId, actionHandleId(id), target);
+      }
+
+      if (postbackData !== undefined) {
+        return { ...base, action: ActionTypes.POSTBACK, postbackData };
+      }
+      // Data that does not lead to another message is meant for the agent
+      return target !== undefined && !isConnected
+        ? { ...base, action: ActionTypes.POSTBACK, postbackData: target }
+        : { ...base, action: ActionTypes.REPLY };
+    }
+
+    const { action } = suggestion;
+    const base = { id, label: action.text, title: action.text, type: 'action' };
+    const { target } = decodePostback(action.postbackData);
+    if (target !== undefined) {
+      connect(nodeId, actionHandleId(id), target);
+    }
+
+    if (action.openUrlAction) {
+      return { ...base, action: ActionTypes.OPEN_URL, url: action.openUrlAction.url };
+    }
+    if (action.dialAction) {
+      return {
+        ...base,
+        action: ActionTypes.DIAL,
+        phoneNumber: action.dialAction.phoneNumber,
+      };
+    }
+    if (action.viewLocationAction) {
+      const { latLong, label } = action.viewLocationAction;
+      return {
+        ...base,
+        action: ActionTypes.VIEW_LOCATION,
+        latitude: latLong ? String(latLong.latitude) : '',
+        longitude: latLong ? String(latLong.longitude) : '',
+        locationLabel: label,
+      };
+    }
+    if (action.shareLocationAction) {
+      return { ...base, action: ActionTypes.SHARE_LOCATION };
+    }
+    if (action.createCalendarEventAction) {
+      const event = action.createCalendarEventAction;
+      return {
+        ...base,
+        action: ActionTypes.CREATE_CALENDAR_EVENT,
+        startTime: toLocalTime(event.startTime),
+        endTime: toLocalTime(event.endTime),
+        eventTitle: event.title,
+        eventDescription: event.description,
+      };
+    }
+    return { ...base, action: ActionTypes.REPLY };
+  };
+
+  const toCard = (
+    content: RbmCardContent,
+    cardId: string,
+    nodeId: string
+  ): RichCardData => ({
+    id: cardId,
+    title: content.title || '',
+    description: content.description || '',
+    imageUrl: content.media?.contentInfo.fileUrl || '',
+    buttons: (content.suggestions || []).map((suggestion) =>
+      toButton(suggestion, nodeId)
+    ),
+  });
+
+  messages.forEach((message, index) => {
+    const { richCard, text, suggestions } = message.contentMessage;
+    const position = { x: NODE_SPACING * index, y: 100 };
+    const { id } = planned[index];
+
+    if (!richCard) {
+      nodes.push({
+        id,
+        type: NodeTypes.TEXT_MESSAGE,
+        position,
+        data: {
+          id,
+          text: text || '',
+          suggestions: (suggestions || []).map((suggestion) =>
+            toButton(suggestion, id)
+          ),
+        },
+      });
+
+      if (message.next) {
+        connect(id, `node-${id}-right`, message.next);
+      }
+    } else if ('carouselCard' in richCard) {
+      const cards = (richCard.carouselCard.cardContents || []).map((content, cardIndex) =>
+        toCard(content, `${id}-card-${cardIndex + 1}`, id)
+      );
+      nodes.push({ id, type: NodeTypes.CAROUSEL_CARD, position, data: { cards } });
+
+      if (message.next && cards.length > 0) {
+        connect(id, `card-${cards[cards.length - 1].id}-source`, message.next);
+      }
+    } else {
+      const content = richCard.standaloneCard.cardContent;
+      nodes.push({
+        id,
+        type: NodeTypes.RICH_CARD,
+        position,
+        data: toCard(content, id, id),
+      });
+
+      if (message.next) {
+        connect(id, `node-${id}-right`, message.next);
+      }
+    }
+  });
+
+  inputs.forEach((item, inputIndex) => {
+    const index = messages.length + inputIndex;
+    const { id } = planned[index];
+
+    const matchers = item.matchers.map((matcher, matcherIndex): InputMatcher => {
+      const matcherId = `matcher-${stamp}-${index}-${matcherIndex}`;
+      if (matcher.next) {
+        connect(id, matcherHandleId(matcherId), matcher.next);
+      }
+      return {
+        id: matcherId,
+        type: isMatcherType(matcher.type) ? matcher.type : MatcherTypes.FALLBACK,
+        value: typeof matcher.value === 'string' ? matcher.value : '',
+      };
+    });
+
+    nodes.push({
+      id,
+      type: NodeTypes.USER_INPUT,
+      position: { x: NODE_SPACING * index, y: 100 },
+      data: {
+        id,
+        matchers,
+        saveAs: typeof item.saveAs === 'string' ? item.saveAs : undefined,
+      },
+    });
+  });
+
+  branches.forEach((item, branchIndex) => {
+    const index = messages.length + inputs.length + branchIndex;
+    const { id } = planned[index];
+
+    const conditions = item.conditions.map((condition, conditionIndex): Condition => {
+      const conditionId = `condition-${stamp}-${index}-${conditionIndex}`;
+      if (condition.next) {
+        connect(id, conditionHandleId(conditionId), condition.next);
+      }
+      return {
+        id: conditionId,
+        variable: typeof condition.variable === 'string' ? condition.variable : '',
+        operator: isConditionOperator(condition.operator)
+          ? condition.operator
+          : ConditionOperators.EQUALS,
+        value: typeof condition.value === 'string' ? condition.value : '',
+      };
+    });
+    if (typeof item.else === 'string') {
+      connect(id, CONDITION_ELSE_HANDLE_ID, item.else);
+    }
+
+    nodes.push({
+      id,
+      type: NodeTypes.CONDITION,
+      position: { x: NODE_SPACING * index, y: 100 },
+      data: { id, conditions },
+    });
+  });
+
+  webhooks.forEach((item, webhookIndex) => {
+    const index = messages.length + inputs.length + branches.length + webhookIndex;
+    const { id } = planned[index];
+
+    if (typeof item.success === 'string') {
+      connect(id, WEBHOOK_SUCCESS_HANDLE_ID, item.success);
+    }
+    if (typeof item.error === 'string') {
+      connect(id, WEBHOOK_ERROR_HANDLE_ID, item.error);
+    }
+
+    const headers = isObject(item.headers) ? Object.entries(item.headers) : [];
+    const responseMappings = Array.isArray(item.responseMappings)
+      ? item.responseMappings
+      : [];
+    nodes.push({
+      id,
+      type: NodeTypes.WEBHOOK,
+      position: { x: NODE_SPACING * index, y: 100 },
+      data: {
+        id,
+        method: isHttpMethod(item.method) ? item.method : HttpMethods.GET,
+        url: item.url,
+        headers: headers.map(([name, value], headerIndex) => ({
+          id: `header-${stamp}-${index}-${headerIndex}`,
+          name,
+          value: typeof value === 'string' ? value : '',
+        })),
+        body: typeof item.body === 'string' ? item.body : '',
+        responseMappings: responseMappings.map((mapping, mappingIndex) => ({
+          id: `mapping-${stamp}-${index}-${mappingIndex}`,
+          path: typeof mapping.path === 'string' ? mapping.path : '',
+          variable: typeof mapping.variable === 'string' ? mapping.variable : '',
+        })),
+      },
+    });
+  });
+
+  const flowState: FlowState = { nodes, edges };
+  const startMessageId = isObject(input) ? input.startMessageId : undefined;
+  if (typeof startMessageId === 'string' && nodeIds.has(startMessageId)) {
+    flowState.startNodeId = nodeIds.get(startMessageId)?.id;
+  }
+
+  const entryPoints = parseEntryPoints(input).flatMap(
+    (entryPoint, index): EntryPoint[] => {
+      const target = nodeIds.get(entryPoint.next);
+      return target
+        ? [{
+            id: `entry-${stamp}-${index}`,
+            type: entryPoint.type as EntryPointTypes,
+            value: entryPoint.value,
+            nodeId: target.id,
+          }]
+        : [];
+    }
+  );
+  if (entryPoints.length > 0) {
+    flowState.entryPoints = entryPoints;
+  }
+
+  const variables = parseVariables(input).map(
+    (variable, index): FlowVariable => ({
+      id: `var-${stamp}-${index}`,
+      name: variable.name,
+      sampleValue: typeof variable.sampleValue === 'string' ? variable.sampleValue : '',
+    })
+  );
+  if (variables.length > 0) {
+    flowState.variables = variables;
+  }
+
+  return flowState;
+};
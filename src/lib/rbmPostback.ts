@@ -0,0 +1,62 @@
+/**
+ * Postback data of exported suggestions. Actions that lead to another message
+ * send its id, so agents can route replies without decoding anything. Other
+ * actions carry a marker, so an import can tell them apart:
+ * - "unconnected:<action id>" for actions that do not lead anywhere
+ * - "postback:<message id>:<data>" for postback actions, with the message id
+ *   URI-encoded and empty when the action is not connected
+ */
+
+const UNCONNECTED_PREFIX = 'unconnected:';
+const POSTBACK_PREFIX = 'postback:';
+
+/**
+ * What the postback data of an imported suggestion says
+ */
+export interface DecodedPostback {
+  /** Id of the message the action leads to, or agent data to check against the ids */
+  target?: string;
+  /** Own data of a postback action, set only for postback actions */
+  postbackData?: string;
+}
+
+/**
+ * Postback data of an action that is not a postback action
+ */
+export const encodeActionPostback = (
+  actionId: string,
+  target: string | null
+): string => target ?? `${UNCONNECTED_PREFIX}${actionId}`;
+
+/**
+ * Postback data of a postback action
+ */
+export const encodePostbackAction = (target: string | null, data: string): string =>
+  `${POSTBACK_PREFIX}${encodeURIComponent(target ?? '')}:${data}`;
+
+/**
+ * Read the postback data of a suggestion, see the markers above.
+ * Data without a marker is returned as the target, it is either the id of a
+ * message or data the agent defined.
+ */
+export const decodePostback = (postbackData: string | undefined): DecodedPostback => {
+  if (!postbackData || postbackData.startsWith(UNCONNECTED_PREFIX)) {
+    return {};
+  }
+  if (postbackData.startsWith(POSTBACK_PREFIX)) {
+    const rest = postbackData.slice(POSTBACK_PREFIX.length);
+    const separator = rest.indexOf(':');
+    if (separator >= 0) {
+      try {
+        const target = decodeURIComponent(rest.slice(0, separator));
+        return {
+          target: target || undefined,
+          postbackData: rest.slice(separator + 1),
+        };
+      } catch {
+        // Not encoded by the export, read it as agent data below
+      }
+    }
+  }
+  return { target: postbackData };
+};
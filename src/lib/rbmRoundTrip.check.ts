@@ -0,0 +1,181 @@
+import { CustomNode, FlowState, NodeTypes } from '@/types/FlowTypes';
+import { ActionTypes, ButtonData, TextMessageData } from '@/types/CardTypes';
+import { exportToRbm } from './rbmExport';
+import { importFromRbm } from './rbmImport';
+import { actionHandleId } from './simulator';
+
+/**
+ * Round-trip checks of the RBM export and import, run with `npm run check:rbm`.
+ * The repo has no test runner, the script loads this module through Vite.
+ */
+
+interface RoundTripCase {
+  name: string;
+  action: ButtonData;
+  /** Whether the action is connected to the next message */
+  connected: boolean;
+}
+
+// Contains ':' so decoding cannot rely on the first separator
+const TARGET_ID = 'order:status';
+
+const base = (id: string, text: string) => ({ id, label: text, title: text, type: 'action' });
+
+const CASES: RoundTripCase[] = [
+  {
+    name: 'connected reply',
+    action: { ...base('a1', 'Track order'), action: ActionTypes.REPLY },
+    connected: true,
+  },
+  {
+    name: 'unconnected reply',
+    action: { ...base('a2', 'Maybe later'), action: ActionTypes.REPLY },
+    connected: false,
+  },
+  {
+    name: 'connected postback with data',
+    action: { ...base('a3', 'Yes'), action: ActionTypes.POSTBACK, postbackData: 'confirm:yes' },
+    connected: true,
+  },
+  {
+    name: 'connected postback without data',
+    action: { ...base('a4', 'No'), action: ActionTypes.POSTBACK, postbackData: '' },
+    connected: true,
+  },
+  {
+    name: 'unconnected postback with data',
+    action: { ...base('a5', 'Stop'), action: ActionTypes.POSTBACK, postbackData: 'unsubscribe' },
+    connected: false,
+  },
+  {
+    name: 'unconnected postback without data',
+    action: { ...base('a6', 'Skip'), action: ActionTypes.POSTBACK, postbackData: '' },
+    connected: false,
+  },
+  {
+    name: 'open URL',
+    action: { ...base('a7', 'Website'), action: ActionTypes.OPEN_URL, url: 'https://example.com' },
+    connected: true,
+  },
+  {
+    name: 'dial',
+    action: { ...base('a8', 'Call us'), action: ActionTypes.DIAL, phoneNumber: '+15551234567' },
+    connected: false,
+  },
+  {
+    name: 'view location',
+    action: {
+      ...base('a9', 'Find us'),
+      action: ActionTypes.VIEW_LOCATION,
+      latitude: '37.422',
+      longitude: '-122.084',
+      locationLabel: 'Office',
+    },
+    connected: true,
+  },
+  {
+    name: 'share location',
+    action: { ...base('a10', 'Share location'), action: ActionTypes.SHARE_LOCATION },
+    connected: false,
+  },
+  {
+    name: 'calendar event',
+    action: {
+      ...base('a11', 'Save the date'),
+      action: ActionTypes.CREATE_CALENDAR_EVENT,
+      startTime: '2025-05-01T14:30',
+      endTime: '2025-05-01T15:30',
+      eventTitle: 'Delivery',
+      eventDescription: 'Be home',
+    },
+    connected: true,
+  },
+];
+
+// Imported actions get new ids, everything else has to match
+const withoutId = (action: ButtonData) => ({ ...action, id: undefined });
+
+const describe = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Export a flow with every kind of action and import it again.
+ * Returns a message for each case that did not come back unchanged.
+ */
+export const checkRbmRoundTrip = (): string[] => {
+  const source: CustomNode = {
+    id: 'welcome',
+    type: NodeTypes.TEXT_MESSAGE,
+    position: { x: 0, y: 0 },
+    data: { id: 'welcome', text: 'Hi', suggestions: CASES.map(({ action }) => action) },
+  };
+  const target: CustomNode = {
+    id: TARGET_ID,
+    type: NodeTypes.TEXT_MESSAGE,
+    position: { x: 400, y: 0 },
+    data: { id: TARGET_ID, text: 'Your order', suggestions: [] },
+  };
+  const flowState: FlowState = {
+    nodes: [source, target],
+    edges: CASES.filter(({ connected }) => connected).map(({ action }) => ({
+      id: `edge-${action.id}`,
+      source: source.id,
+      sourceHandle: actionHandleId(action.id),
+      target: target.id,
+    })),
+  };
+
+  const imported = importFromRbm(JSON.parse(JSON.stringify(exportToRbm(flowState))));
+  const [importedSource, importedTarget] = imported.nodes;
+  const suggestions = (importedSource.data as TextMessageData).suggestions;
+  const failures: string[] = [];
+
+  CASES.forEach(({ name, action, connected }, index) => {
+    const result = suggestions[index];
+    if (!result) {
+      failures.push(`${name}: missing after the import`);
+      return;
+    }
+    if (describe(withoutId(result)) !== describe(withoutId(action))) {
+      failures.push(
+        `${name}: expected ${describe(withoutId(action))}, got ${describe(withoutId(result))}`
+      );
+    }
+    const isConnected = imported.edges.some(
+      (edge) =>
+        edge.source === importedSource.id &&
+        edge.sourceHandle === actionHandleId(result.id) &&
+        edge.target === importedTarget.id
+    );
+    if (isConnected !== connected) {
+      failures.push(`${name}: expected ${connected ? 'a' : 'no'} connection after the import`);
+    }
+  });
+
+  // Agent data that looks like "<message id>:<data>" is not a connection
+  const agentFlow = importFromRbm({
+    messages: [
+      { id: 'b', contentMessage: { text: 'Next' } },
+      {
+        id: 'a',
+        contentMessage: {
+          text: 'Pick one',
+          suggestions: [{ reply: { text: 'Custom', postbackData: 'b:custom' } }],
+        },
+      },
+    ],
+  });
+  const agentAction = (agentFlow.nodes[1].data as TextMessageData).suggestions[0];
+  if (
+    agentFlow.edges.length > 0 ||
+    agentAction.action !== ActionTypes.POSTBACK ||
+    agentAction.postbackData !== 'b:custom'
+  ) {
+    failures.push(
+      `agent postback data: expected an unconnected postback "b:custom", got ${describe(
+        withoutId(agentAction)
+      )}`
+    );
+  }
+
+  return failures;
+};
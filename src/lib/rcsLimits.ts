@@ -0,0 +1,20 @@
+/**
+ * Limits RCS Business Messaging puts on agent messages.
+ * Messages over these limits are rejected when they are sent.
+ */
+
+/** Characters in a text message */
+export const TEXT_MESSAGE_MAX_LENGTH = 3072;
+
+/** Characters in a rich card title */
+export const CARD_TITLE_MAX_LENGTH = 200;
+
+/** Characters in a rich card description */
+export const CARD_DESCRIPTION_MAX_LENGTH = 2000;
+
+/** Characters in the text of a suggested reply or action */
+export const SUGGESTION_TEXT_MAX_LENGTH = 25;
+
+/** Cards in a carousel */
+export const CAROUSEL_MIN_CARDS = 2;
+export const CAROUSEL_MAX_CARDS = 10;
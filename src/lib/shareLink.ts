@@ -0,0 +1,81 @@
+import { FlowState } from '@/types/FlowTypes';
+import { toFlowDocument } from './flowSerialization';
+import { readFlowDocument } from './flowSchema';
+import { stripInlineImages } from './inlineImages';
+
+// Fragment of a page URL that holds a shared flow, e.g. "#share=..."
+const SHARE_PREFIX = '#share=';
+
+export interface ShareLink {
+  url: string;
+  /** Number of uploaded images replaced by a placeholder */
+  strippedImages: number;
+}
+
+// URL-safe base64 without padding, so the fragment needs no escaping
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Create a link that opens a flow read-only, with the flow compressed into the
+ * URL fragment so it never reaches a server
+ */
+export const createShareLink = async (
+  flowState: FlowState,
+  baseUrl: string = window.location.href
+): Promise<ShareLink> => {
+  const { nodes, strippedImages } = stripInlineImages(flowState.nodes);
+  const json = JSON.stringify(toFlowDocument({ ...flowState, nodes }));
+  const compressed = await transform(
+    new TextEncoder().encode(json),
+    new CompressionStream('deflate-raw')
+  );
+
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_PREFIX}${toBase64Url(compressed)}`;
+  return { url: url.toString(), strippedImages };
+};
+
+/**
+ * Whether a URL fragment holds a shared flow
+ */
+export const isShareHash = (hash: string): boolean => hash.startsWith(SHARE_PREFIX);
+
+/**
+ * Read the flow of a share link from its URL fragment
+ */
+export const readShareHash = async (hash: string): Promise<FlowState> => {
+  if (!isShareHash(hash)) {
+    throw new Error('The link does not contain a shared flow.');
+  }
+
+  let document: unknown;
+  try {
+    const json = await transform(
+      fromBase64Url(hash.slice(SHARE_PREFIX.length)),
+      new DecompressionStream('deflate-raw')
+    );
+    document = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The shared flow could not be read, the link may be incomplete.');
+  }
+  return readFlowDocument(document).flowState;
+};
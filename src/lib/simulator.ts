@@ -0,0 +1,132 @@
+import { Edge } from '@xyflow/react';
+import { ConditionData } from '@/types/CardTypes';
+import {
+  CustomNode,
+  EntryPoint,
+  EntryPointTypes,
+  FlowState,
+  NodeTypes,
+} from '@/types/FlowTypes';
+import { findCondition } from './conditions';
+import { VariableValues } from './templating';
+
+/** Hard stop for chains of auto-advancing messages, so a cycle can't hang the preview */
+export const MAX_AUTO_STEPS = 20;
+
+/**
+ * Handle id of the source handle rendered next to an action button
+ */
+export const actionHandleId = (buttonId: string): string => `action-${buttonId}`;
+
+/**
+ * Handle id of the source handle rendered next to a user input matcher
+ */
+export const matcherHandleId = (matcherId: string): string => `matcher-${matcherId}`;
+
+/**
+ * Handle id of the source handle rendered next to a condition
+ */
+export const conditionHandleId = (conditionId: string): string =>
+  `condition-${conditionId}`;
+
+/** Handle id of the source handle a condition node leaves from when no condition holds */
+export const CONDITION_ELSE_HANDLE_ID = 'condition-else';
+
+/** Handle id of the source handle an API call node leaves from when the call succeeds */
+export const WEBHOOK_SUCCESS_HANDLE_ID = 'webhook-success';
+
+/** Handle id of the source handle an API call node leaves from when the call fails */
+export const WEBHOOK_ERROR_HANDLE_ID = 'webhook-error';
+
+// Handles a conversation only leaves through when the user taps or types something,
+// or when a condition or the outcome of an API call decides on them
+const isBranchHandle = (handleId?: string | null): boolean =>
+  !!handleId &&
+  (handleId.startsWith('action-') ||
+    handleId.startsWith('matcher-') ||
+    handleId.startsWith('condition-') ||
+    handleId.startsWith('webhook-')) &&
+  !handleId.endsWith('-target');
+
+/**
+ * Find the node a conversation starts at.
+ * This is the designated start node, otherwise the first node without incoming edges,
+ * or the first node when every node has one.
+ */
+export const findEntryNode = (flowState: FlowState): CustomNode | null => {
+  const { nodes, edges, startNodeId } = flowState;
+  if (nodes.length === 0) {
+    return null;
+  }
+
+  const startNode = nodes.find((node) => node.id === startNodeId);
+  if (startNode) {
+    return startNode;
+  }
+
+  const targets = new Set(edges.map((edge) => edge.target));
+  return nodes.find((node) => !targets.has(node.id)) ?? nodes[0];
+};
+
+/**
+ * Find the keyword entry point a typed message triggers, ignoring case and surrounding spaces
+ */
+export const findKeywordEntryPoint = (
+  entryPoints: EntryPoint[],
+  text: string
+): EntryPoint | undefined => {
+  const keyword = text.trim().toLowerCase();
+  return entryPoints.find(
+    (entryPoint) =>
+      entryPoint.type === EntryPointTypes.KEYWORD &&
+      entryPoint.value.trim().toLowerCase() === keyword
+  );
+};
+
+/**
+ * Find the node reached by following the edge leaving a specific handle
+ */
+export const getNextNodeId = (
+  edges: Edge[],
+  nodeId: string,
+  sourceHandle: string
+): string | null => {
+  const edge = edges.find(
+    (e) => e.source === nodeId && e.sourceHandle === sourceHandle
+  );
+  return edge ? edge.target : null;
+};
+
+/**
+ * Find the node a message continues to without user input,
+ * i.e. an edge leaving the node from a handle that is not tied to an action or matcher.
+ */
+export const getContinuationNodeId = (
+  edges: Edge[],
+  nodeId: string
+): string | null => {
+  const edge = edges.find(
+    (e) => e.source === nodeId && !isBranchHandle(e.sourceHandle)
+  );
+  return edge ? edge.target : null;
+};
+
+/**
+ * Find the node a condition node routes to for the given variable values,
+ * following the first condition that holds or the else handle
+ */
+export const getConditionNextNodeId = (
+  edges: Edge[],
+  node: CustomNode,
+  values: VariableValues
+): string | null => {
+  if (node.type !== NodeTypes.CONDITION) {
+    return null;
+  }
+  const condition = findCondition((node.data as ConditionData).conditions || [], values);
+  return getNextNodeId(
+    edges,
+    node.id,
+    condition ? conditionHandleId(condition.id) : CONDITION_ELSE_HANDLE_ID
+  );
+};
@@ -0,0 +1,65 @@
+import { FlowVariable } from '@/types/FlowTypes';
+
+/** Values of the flow variables by name */
+export type VariableValues = Record<string, string>;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// A {{name}} placeholder, spaces inside the braces are allowed
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// An unfinished placeholder right before the caret, e.g. "Hi {{us"
+const OPEN_PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]*)$/;
+
+/**
+ * Check whether a name can be used in placeholders
+ */
+export const isValidVariableName = (name: string): boolean =>
+  VARIABLE_NAME_PATTERN.test(name);
+
+/**
+ * Names of the variables a text references, in order of first use
+ */
+export const findPlaceholders = (text: string): string[] => [
+  ...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1])),
+];
+
+/**
+ * Value of a variable, or undefined when it has none.
+ * Only own keys count, so names like "constructor" do not read object methods.
+ */
+export const getVariableValue = (
+  values: VariableValues,
+  name: string
+): string | undefined =>
+  Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+
+/**
+ * Replace placeholders with their values.
+ * Placeholders without a value are left as they are, so they stay visible.
+ */
+export const renderTemplate = (text: string, values: VariableValues): string =>
+  text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => getVariableValue(values, name) ?? placeholder
+  );
+
+/**
+ * The sample value of every variable, which the preview starts with
+ */
+export const getSampleValues = (variables: FlowVariable[]): VariableValues =>
+  Object.fromEntries(
+    variables.map((variable) => [variable.name, variable.sampleValue])
+  );
+
+/**
+ * Find the placeholder being typed before the caret, if any.
+ * Returns where it starts and the part of the name typed so far.
+ */
+export const findOpenPlaceholder = (
+  text: string,
+  caret: number
+): { start: number; query: string } | null => {
+  const match = OPEN_PLACEHOLDER_PATTERN.exec(text.slice(0, caret));
+  return match ? { start: match.index, query: match[1] } : null;
+};
@@ -0,0 +1,147 @@
+import { HttpMethods, WebhookData } from '@/types/CardTypes';
+import { MockResponse } from '@/types/FlowTypes';
+import { VariableValues, renderTemplate } from './templating';
+
+/** Methods that send a request body */
+export const METHODS_WITH_BODY: HttpMethods[] = [
+  HttpMethods.POST,
+  HttpMethods.PUT,
+  HttpMethods.PATCH,
+];
+
+export interface WebhookRequest {
+  method: HttpMethods;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface WebhookResult {
+  request: WebhookRequest;
+  /** Status of the mock response, or null when no mock response fits */
+  status: number | null;
+  /** Whether the conversation continues from the success handle */
+  ok: boolean;
+  /** Variable values after the response mappings were applied */
+  values: VariableValues;
+  /** Why the call failed, if it did */
+  error?: string;
+}
+
+/**
+ * Build the request an API call node sends, with placeholders filled in
+ */
+export const buildRequest = (
+  data: WebhookData,
+  values: VariableValues
+): WebhookRequest => {
+  const headers = Object.fromEntries(
+    (data.headers || [])
+      .filter((header) => header.name.trim() !== '')
+      .map((header) => [header.name.trim(), renderTemplate(header.value, values)])
+  );
+  const request: WebhookRequest = {
+    method: data.method,
+    url: renderTemplate(data.url || '', values).trim(),
+    headers,
+  };
+  if (METHODS_WITH_BODY.includes(data.method) && data.body) {
+    request.body = renderTemplate(data.body, values);
+  }
+  return request;
+};
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Check whether a mock response answers a request.
+ * The method must be the same and * in the mock URL matches any text.
+ */
+export const matchesMockResponse = (
+  mock: MockResponse,
+  request: WebhookRequest
+): boolean => {
+  if (mock.method !== request.method) return false;
+  const pattern = mock.url.trim().split('*').map(escapeRegex).join('.*');
+  return new RegExp(`^${pattern}$`, 'i').test(request.url);
+};
+
+/**
+ * Read the value at a dot separated path of a parsed JSON response.
+ * Array items are addressed by their index, e.g. items.0.name.
+ * Only own keys count, so paths like "constructor" do not read object methods.
+ */
+export const readResponsePath = (response: unknown, path: string): unknown =>
+  path
+    .split('.')
+    .map((key) => key.trim())
+    .filter((key) => key !== '')
+    .reduce<unknown>(
+      (value, key) =>
+        typeof value === 'object' &&
+        value !== null &&
+        Object.prototype.hasOwnProperty.call(value, key)
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      response
+    );
+
+const toVariableValue = (value: unknown): string =>
+  typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Run an API call node against the mock responses instead of the network.
+ * A 2xx response stores the mapped values, anything else, or no fitting mock,
+ * leaves the values as they are and fails the call.
+ */
+export const runMockRequest = (
+  data: WebhookData,
+  mockResponses: MockResponse[],
+  values: VariableValues
+): WebhookResult => {
+  const request = buildRequest(data, values);
+  const mock = mockResponses.find((response) => matchesMockResponse(response, request));
+  if (!mock) {
+    return {
+      request,
+      status: null,
+      ok: false,
+      values,
+      error: 'No mock response fits this call',
+    };
+  }
+
+  if (mock.status < 200 || mock.status >= 300) {
+    return { request, status: mock.status, ok: false, values };
+  }
+
+  const mappings = (data.responseMappings || []).filter(
+    (mapping) => mapping.path.trim() !== '' && mapping.variable !== ''
+  );
+  if (mappings.length === 0) {
+    return { request, status: mock.status, ok: true, values };
+  }
+
+  let response: unknown;
+  try {
+    response = JSON.parse(mock.body);
+  } catch {
+    return {
+      request,
+      status: mock.status,
+      ok: false,
+      values,
+      error: 'The mock response body is not valid JSON',
+    };
+  }
+
+  const mapped = { ...values };
+  mappings.forEach((mapping) => {
+    const value = readResponsePath(response, mapping.path);
+    if (value !== undefined && value !== null) {
+      mapped[mapping.variable] = toVariableValue(value);
+    }
+  });
+  return { request, status: mock.status, ok: true, values: mapped };
+};
@@ -1,28 +1,183 @@
-export interface ButtonData {
+/**
+ * Action types a button can have, matching RCS suggestions
+ */
+export enum ActionTypes {
+	REPLY = 'reply',
+	OPEN_URL = 'openUrl',
+	DIAL = 'dial',
+	VIEW_LOCATION = 'viewLocation',
+	SHARE_LOCATION = 'shareLocation',
+	CREATE_CALENDAR_EVENT = 'createCalendarEvent',
+	POSTBACK = 'postback',
+  }
+
+  interface BaseButtonData {
 	id: string;
 	label: string;
-	action: string;
 	type?: string;
 	title?: string;
-	[key: string]: unknown;
   }
+
+  export interface ReplyButtonData extends BaseButtonData {
+	action: ActionTypes.REPLY;
+  }
+
+  export interface OpenUrlButtonData extends BaseButtonData {
+	action: ActionTypes.OPEN_URL;
+	url: string;
+  }
+
+  export interface DialButtonData extends BaseButtonData {
+	action: ActionTypes.DIAL;
+	phoneNumber: string;
+  }
+
+  export interface ViewLocationButtonData extends BaseButtonData {
+	action: ActionTypes.VIEW_LOCATION;
+	latitude: string;
+	longitude: string;
+	locationLabel?: string;
+  }
+
+  export interface ShareLocationButtonData extends BaseButtonData {
+	action: ActionTypes.SHARE_LOCATION;
+  }
+
+  export interface CalendarEventButtonData extends BaseButtonData {
+	action: ActionTypes.CREATE_CALENDAR_EVENT;
+	/** ISO 8601 date-time */
+	startTime: string;
+	/** ISO 8601 date-time */
+	endTime: string;
+	eventTitle: string;
+	eventDescription?: string;
+  }
+
+  export interface PostbackButtonData extends BaseButtonData {
+	action: ActionTypes.POSTBACK;
+	/** Custom data sent to the agent when the button is tapped */
+	postbackData: string;
+  }
+
+  export type ButtonData =
+	| ReplyButtonData
+	| OpenUrlButtonData
+	| DialButtonData
+	| ViewLocationButtonData
+	| ShareLocationButtonData
+	| CalendarEventButtonData
+	| PostbackButtonData;
   
-  export interface ChipData {
+  export type ChipData = {
 	id: string;
 	label: string;
-	[key: string]: unknown;
-  }
+  };
   
-  export interface RichCardData {
+  export type RichCardData = {
 	id: string;
 	title: string;
 	description: string;
 	imageUrl: string;
 	buttons: ButtonData[];
-	[key: string]: unknown;
-  }
+	/** Note for the people editing the flow, not sent to the user */
+	note?: string;
+  };
   
-  export interface CarouselCardData {
+  export type CarouselCardData = {
 	cards: RichCardData[];
-	[key: string]: unknown;
-  }
\ No newline at end of file
+	/** Note for the people editing the flow, not sent to the user */
+	note?: string;
+  };
+  export type TextMessageData = {
+	id: string;
+	text: string;
+	/** Suggestion chips shown under the message */
+	suggestions: ButtonData[];
+  };
+
+/**
+ * Ways a user reply can be matched, tried in order
+ */
+export enum MatcherTypes {
+	EXACT = 'exact',
+	KEYWORD = 'keyword',
+	REGEX = 'regex',
+	FALLBACK = 'fallback',
+  }
+
+  export interface InputMatcher {
+	id: string;
+	type: MatcherTypes;
+	/** Text to match, a comma-separated list for keyword matchers, unused by fallbacks */
+	value: string;
+  }
+
+  export type UserInputData = {
+	id: string;
+	matchers: InputMatcher[];
+	/** Name of the variable the reply is stored in */
+	saveAs?: string;
+  };
+
+/**
+ * Ways a condition can compare a variable, tried in order
+ */
+export enum ConditionOperators {
+	EQUALS = 'equals',
+	CONTAINS = 'contains',
+	GREATER_THAN = 'greaterThan',
+	IS_SET = 'isSet',
+	REGEX = 'regex',
+  }
+
+  export interface Condition {
+	id: string;
+	/** Name of the variable that is compared */
+	variable: string;
+	operator: ConditionOperators;
+	/** Value to compare with, unused by is-set conditions */
+	value: string;
+  }
+
+  export type ConditionData = {
+	id: string;
+	conditions: Condition[];
+  };
+
+
+export enum HttpMethods {
+	GET = 'GET',
+	POST = 'POST',
+	PUT = 'PUT',
+	PATCH = 'PATCH',
+	DELETE = 'DELETE',
+  }
+
+  export interface WebhookHeader {
+	id: string;
+	name: string;
+	/** Header value, can hold placeholders */
+	value: string;
+  }
+
+  /**
+   * Copies a value of the JSON response into a flow variable
+   */
+  export interface ResponseMapping {
+	id: string;
+	/** Dot separated path into the response, e.g. order.items.0.name */
+	path: string;
+	/** Name of the variable the value is stored in */
+	variable: string;
+  }
+
+  export type WebhookData = {
+	id: string;
+	method: HttpMethods;
+	/** Request URL, can hold placeholders */
+	url: string;
+	headers: WebhookHeader[];
+	/** Request body, can hold placeholders */
+	body: string;
+	responseMappings: ResponseMapping[];
+  };
\ No newline at end of file
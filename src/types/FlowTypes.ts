@@ -1,17 +1,116 @@
 import { Node, Edge } from '@xyflow/react';
-import { RichCardData, CarouselCardData } from './CardTypes';
+import {
+  RichCardData,
+  CarouselCardData,
+  TextMessageData,
+  UserInputData,
+  ConditionData,
+  HttpMethods,
+  WebhookData,
+} from './CardTypes';
 
 export enum NodeTypes {
   RICH_CARD = 'richCard',
   CAROUSEL_CARD = 'carouselCard',
+  TEXT_MESSAGE = 'textMessage',
+  USER_INPUT = 'userInput',
+  CONDITION = 'condition',
+  WEBHOOK = 'webhook',
 }
 
 export interface CustomNode extends Node {
   type: NodeTypes;
-  data: RichCardData | CarouselCardData;
+  data:
+    | RichCardData
+    | CarouselCardData
+    | TextMessageData
+    | UserInputData
+    | ConditionData
+    | WebhookData;
+}
+
+export enum EntryPointTypes {
+  KEYWORD = 'keyword',
+  DEEP_LINK = 'deepLink',
+}
+
+/**
+ * A way into the conversation other than the start node
+ */
+export interface EntryPoint {
+  id: string;
+  type: EntryPointTypes;
+  /** Keyword the user types, or the payload of the deep link */
+  value: string;
+  /** Node the conversation starts at */
+  nodeId: string;
+}
+
+/**
+ * Value the conversation remembers, referenced in message text as {{name}}
+ */
+export interface FlowVariable {
+  id: string;
+  /** Name used in placeholders, letters, digits and underscores */
+  name: string;
+  /** Value the preview uses until the conversation stores one */
+  sampleValue: string;
+}
+
+/**
+ * Canned answer the preview gives an API call instead of sending it
+ */
+export interface MockResponse {
+  id: string;
+  method: HttpMethods;
+  /** URL the call must have once placeholders are filled in, * matches any text */
+  url: string;
+  /** HTTP status code, 2xx continues from the success handle */
+  status: number;
+  /** Response body, JSON for response mappings to read from */
+  body: string;
 }
 
 export interface FlowState {
   nodes: CustomNode[];
   edges: Edge[];
-}
\ No newline at end of file
+  /** Node conversations start at when no entry point applies */
+  startNodeId?: string;
+  entryPoints?: EntryPoint[];
+  variables?: FlowVariable[];
+  /** Responses the preview uses for API calls, so flows can be tested offline */
+  mockResponses?: MockResponse[];
+}
+/**
+ * Library entry describing a stored flow
+ */
+export interface FlowMeta {
+  id: string;
+  name: string;
+  description: string;
+  /** ISO timestamp of when the flow was created */
+  createdAt: string;
+  /** ISO timestamp of the last saved change */
+  updatedAt: string;
+}
+
+/**
+ * A flow as written to storage and files. Documents of older schema versions
+ * are migrated to the current one when they are read.
+ */
+export interface FlowDocument extends FlowState {
+  schemaVersion: number;
+  /** Name and description of the flow, written to exported files */
+  meta?: Pick<FlowMeta, 'name' | 'description'>;
+}
+
+/**
+ * Labelled snapshot of a flow, saved on request and never changed afterwards
+ */
+export interface FlowVersion {
+  id: string;
+  flowId: string;
+  label: string;
+  /** ISO timestamp of when the version was saved */
+  createdAt: string;
+}
@@ -0,0 +1,170 @@
+/**
+ * Subset of the GSMA RCS Business Messaging (RBM) agent message format
+ * that flows can be exported to and imported from.
+ */
+
+export interface RbmLatLong {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RbmSuggestedReply {
+  text: string;
+  postbackData: string;
+}
+
+export interface RbmSuggestedAction {
+  text: string;
+  postbackData: string;
+  fallbackUrl?: string;
+  openUrlAction?: { url: string };
+  dialAction?: { phoneNumber: string };
+  viewLocationAction?: { latLong?: RbmLatLong; label?: string; query?: string };
+  shareLocationAction?: Record<string, never>;
+  createCalendarEventAction?: {
+    startTime: string;
+    endTime: string;
+    title: string;
+    description?: string;
+  };
+}
+
+export type RbmSuggestion =
+  | { reply: RbmSuggestedReply }
+  | { action: RbmSuggestedAction };
+
+export interface RbmMedia {
+  height: 'SHORT' | 'MEDIUM' | 'TALL';
+  contentInfo: {
+    fileUrl: string;
+    thumbnailUrl?: string;
+    forceRefresh?: boolean;
+  };
+}
+
+export interface RbmCardContent {
+  title?: string;
+  description?: string;
+  media?: RbmMedia;
+  suggestions?: RbmSuggestion[];
+}
+
+export interface RbmStandaloneCard {
+  cardOrientation: 'VERTICAL' | 'HORIZONTAL';
+  cardContent: RbmCardContent;
+}
+
+export interface RbmCarouselCard {
+  cardWidth: 'SMALL' | 'MEDIUM';
+  cardContents: RbmCardContent[];
+}
+
+export type RbmRichCard =
+  | { standaloneCard: RbmStandaloneCard }
+  | { carouselCard: RbmCarouselCard };
+
+export interface RbmContentMessage {
+  text?: string;
+  richCard?: RbmRichCard;
+  suggestions?: RbmSuggestion[];
+}
+
+export interface RbmAgentMessage {
+  contentMessage: RbmContentMessage;
+}
+
+/**
+ * An agent message that belongs to an exported flow.
+ * Suggestion postback data holds the id of the message the suggestion leads to,
+ * or a marked value for other actions, see rbmPostback.
+ */
+export interface RbmFlowMessage extends RbmAgentMessage {
+  /** Id of the flow node the message was built from */
+  id: string;
+  /** Id of the message sent right after this one, without waiting for the user */
+  next?: string;
+}
+
+/**
+ * A free-text reply the agent waits for, routed by matchers tried in order.
+ * This is not an RBM message, the agent evaluates it when the user replies.
+ */
+export interface RbmFlowInput {
+  /** Id of the flow node the input was built from */
+  id: string;
+  matchers: {
+    type: string;
+    value: string;
+    /** Id of the message sent when the matcher fits */
+    next?: string;
+  }[];
+  /** Name of the variable the reply is stored in */
+  saveAs?: string;
+}
+
+/**
+ * A branch on variable values, made without sending a message.
+ * Conditions are tried in order and the first one that holds decides the next message.
+ */
+export interface RbmFlowBranch {
+  /** Id of the flow node the branch was built from */
+  id: string;
+  conditions: {
+    variable: string;
+    operator: string;
+    value: string;
+    /** Id of the message sent when the condition holds */
+    next?: string;
+  }[];
+  /** Id of the message sent when no condition holds */
+  else?: string;
+}
+
+/**
+ * An HTTP call the agent makes without sending a message.
+ * The URL, header values and body can hold {{name}} placeholders.
+ */
+export interface RbmFlowWebhook {
+  /** Id of the flow node the call was built from */
+  id: string;
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Values of the JSON response stored in variables, by dot separated path */
+  responseMappings?: { path: string; variable: string }[];
+  /** Id of the message sent when the call returns a 2xx status */
+  success?: string;
+  /** Id of the message sent when the call fails */
+  error?: string;
+}
+
+/**
+ * A keyword or deep link payload that starts the conversation at a message
+ */
+export interface RbmFlowEntryPoint {
+  type: 'keyword' | 'deepLink';
+  value: string;
+  /** Id of the message sent when the entry point is used */
+  next: string;
+}
+
+/**
+ * A value the agent remembers during a conversation.
+ * Message text references it as {{name}}, the agent fills it in before sending.
+ */
+export interface RbmFlowVariable {
+  name: string;
+  sampleValue: string;
+}
+
+export interface RbmFlowExport {
+  /** Id of the message a conversation starts with */
+  startMessageId?: string;
+  entryPoints?: RbmFlowEntryPoint[];
+  variables?: RbmFlowVariable[];
+  messages: RbmFlowMessage[];
+  inputs?: RbmFlowInput[];
+  branches?: RbmFlowBranch[];
+  webhooks?: RbmFlowWebhook[];
+}
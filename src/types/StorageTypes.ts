@@ -0,0 +1,28 @@
+import { FlowMeta, FlowState, FlowVersion } from './FlowTypes';
+
+/**
+ * Where flows are persisted. Methods reject with a readable error when the
+ * browser refuses to store or read the data.
+ */
+export interface FlowStorage {
+  /** Short name shown to the user, e.g. "IndexedDB" */
+  name: string;
+  /** Library entries of all stored flows */
+  list: () => Promise<FlowMeta[]>;
+  /** Create or update the library entry of a flow */
+  saveMeta: (flow: FlowMeta) => Promise<void>;
+  /** State of a flow, or null when nothing was saved yet */
+  load: (flowId: string) => Promise<FlowState | null>;
+  /** Save the state of a flow, marking it as updated when its content changed */
+  save: (flowId: string, flowState: FlowState) => Promise<void>;
+  /** Remove a flow with its state, images and versions */
+  delete: (flowId: string) => Promise<void>;
+  /** Saved versions of a flow, oldest first */
+  listVersions: (flowId: string) => Promise<FlowVersion[]>;
+  /** Store a snapshot of a flow as a new version */
+  saveVersion: (version: FlowVersion, flowState: FlowState) => Promise<void>;
+  /** State of a saved version, or null when it no longer exists */
+  loadVersion: (flowId: string, versionId: string) => Promise<FlowState | null>;
+  /** Remove a saved version */
+  deleteVersion: (flowId: string, versionId: string) => Promise<void>;
+}